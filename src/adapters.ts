@@ -0,0 +1,411 @@
+import * as vscode from 'vscode';
+import { Mode } from './configuration';
+import {
+  classifySelections,
+  CURSOR_STYLE_NAMES,
+  CursorStyleName,
+  CursorStyleRule,
+  DEFAULT_CURSOR_STYLE_MAP,
+  INDICATOR_MODES,
+  ModeCursorStyles,
+} from './modeDetection';
+
+/**
+ * Supported modal editing extensions (value of the modeDetection.adapter setting, besides 'auto')
+ */
+export type ModalAdapterId = 'modaledit' | 'vim' | 'dance' | 'neovim' | 'standalone';
+
+/**
+ * Mode state exported by a modal editing extension (its `exports` after activation)
+ */
+export interface ModalExtensionApi {
+  /** Current mode in the extension's own mode names (undefined if not known yet) */
+  getMode(): string | undefined;
+
+  /** Subscribe to mode changes, when the extension fires them */
+  onDidChangeMode?(listener: () => void): vscode.Disposable;
+}
+
+/**
+ * Adapter describing how a modal editing extension shows its modes
+ *
+ * Each adapter names the extension's own modes (e.g. Vim's 'replace', Dance's 'select'),
+ * knows which cursor style each mode uses, and maps those modes onto the indicator's
+ * decoration modes (normal, insert, visual, visualLine, visualBlock, search, plain).
+ */
+export interface ModalExtensionAdapter {
+  readonly id: ModalAdapterId;
+  readonly displayName: string;
+
+  /** Extension providing the modes (none for the standalone adapter) */
+  readonly extensionId?: string;
+
+  /** Configuration section whose changes affect the cursor styles (if any) */
+  readonly configSection?: string;
+
+  /** Extension mode → indicator mode */
+  readonly modeMap: Record<string, Mode>;
+
+  /** Modes that are only active with a selection, in priority order */
+  readonly selectionModes: string[];
+
+  /** Cursor style table used when the extension's settings don't define cursor styles */
+  readonly defaultCursorStyleMap: CursorStyleRule[];
+
+  /** Read the cursor style per mode from the extension's settings */
+  readCursorStyles(): ModeCursorStyles;
+
+  /** Refine a mode found through the cursor style table (e.g. visual → visualLine) */
+  refineMode?(mode: string, editor: vscode.TextEditor): string;
+
+  /** Read the mode API from the extension's exports (undefined when it has none) */
+  readApi?(exports: unknown): ModalExtensionApi | undefined;
+}
+
+/**
+ * Keep only values that are valid cursor style names
+ */
+function pickCursorStyles(candidates: Record<string, unknown>): ModeCursorStyles {
+  const validStyles = Object.values(CURSOR_STYLE_NAMES) as string[];
+  const styles: ModeCursorStyles = {};
+
+  for (const [mode, style] of Object.entries(candidates)) {
+    if (typeof style === 'string' && validStyles.includes(style)) {
+      styles[mode] = style as CursorStyleName;
+    }
+  }
+  return styles;
+}
+
+/**
+ * Visual refinement: a plain visual mode becomes visualLine or visualBlock
+ * depending on the shape of the selections
+ */
+function refineVisualMode(mode: string, editor: vscode.TextEditor): string {
+  if (mode !== 'visual') {
+    return mode;
+  }
+
+  switch (classifySelections(editor)) {
+    case 'line':
+      return 'visualLine';
+    case 'block':
+      return 'visualBlock';
+    default:
+      return mode;
+  }
+}
+
+/**
+ * Event names a mode API may use for mode change events
+ */
+const MODE_CHANGE_EVENT_NAMES = ['onDidChangeMode', 'onModeChange', 'onModeChanged'];
+
+/**
+ * Mode name from an API value: a mode string or an object with a `mode` string
+ */
+function toModeName(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const mode =
+    typeof value === 'object' && value !== null ? (value as { mode?: unknown }).mode : undefined;
+  return typeof mode === 'string' ? mode : undefined;
+}
+
+/**
+ * Duck-typed mode API: a `getMode()` function or `mode` property for the current
+ * mode, and/or a mode change event (see MODE_CHANGE_EVENT_NAMES) in the style of
+ * vscode.Event. Modes delivered by the event are remembered when there is no getter.
+ *
+ * @param exports - Exports of the modal extension
+ * @returns Mode API, or undefined when the exports have neither
+ */
+function readModeApi(exports: unknown): ModalExtensionApi | undefined {
+  if (typeof exports !== 'object' || exports === null) {
+    return undefined;
+  }
+
+  const api = exports as Record<string, unknown>;
+  const getMode = api.getMode;
+  const readMode =
+    typeof getMode === 'function'
+      ? () => toModeName((getMode as () => unknown).call(api))
+      : 'mode' in api
+        ? () => toModeName(api.mode)
+        : undefined;
+  const eventName = MODE_CHANGE_EVENT_NAMES.find(name => typeof api[name] === 'function');
+  if (!readMode && !eventName) {
+    return undefined;
+  }
+
+  let lastEventMode: string | undefined;
+  return {
+    getMode: () => readMode?.() ?? lastEventMode,
+    onDidChangeMode: eventName
+      ? listener => {
+          const subscribe = api[eventName] as (listener: (payload: unknown) => void) => unknown;
+          const subscription = subscribe.call(api, payload => {
+            lastEventMode = toModeName(payload) ?? lastEventMode;
+            listener();
+          });
+          return new vscode.Disposable(() => {
+            if (typeof subscription === 'function') {
+              subscription();
+            } else if (
+              typeof (subscription as vscode.Disposable | undefined)?.dispose === 'function'
+            ) {
+              (subscription as vscode.Disposable).dispose();
+            }
+          });
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Vim-like default table (VSCodeVim, vscode-neovim): block = normal, line = insert,
+ * underline = replace, any block/thin cursor with a selection = visual
+ */
+const VIM_DEFAULT_CURSOR_STYLE_MAP: CursorStyleRule[] = [
+  { cursorStyle: 'line', mode: 'insert' },
+  { cursorStyle: 'block', selection: false, mode: 'normal' },
+  { cursorStyle: 'block', selection: true, mode: 'visual' },
+  { cursorStyle: 'block-outline', selection: false, mode: 'normal' },
+  { cursorStyle: 'block-outline', selection: true, mode: 'visual' },
+  { cursorStyle: 'line-thin', selection: true, mode: 'visual' },
+  { cursorStyle: 'line-thin', selection: false, mode: 'insert' },
+  { cursorStyle: 'underline', mode: 'replace' },
+  { cursorStyle: 'underline-thin', mode: 'replace' },
+];
+
+/**
+ * Vim mode → indicator mode
+ * Replace overwrites text as you type, so it is shown like insert.
+ */
+const VIM_MODE_MAP: Record<string, Mode> = {
+  normal: 'normal',
+  insert: 'insert',
+  visual: 'visual',
+  visualLine: 'visualLine',
+  visualBlock: 'visualBlock',
+  replace: 'insert',
+};
+
+/**
+ * ModalEdit's own modes, each with a modaledit.<mode>.cursorStyle setting
+ */
+const MODALEDIT_MODES = ['normal', 'insert', 'visual', 'search'];
+
+/**
+ * ModalEdit (johtela.vscode-modaledit) - the default adapter.
+ * Its modes are the indicator's modes. ModalEdit has a single visual mode, so
+ * visualLine and visualBlock are told apart by the shape of the selections.
+ * When a version exports mode state (see readModeApi), it replaces the cursor
+ * style heuristic.
+ */
+const MODALEDIT_ADAPTER: ModalExtensionAdapter = {
+  id: 'modaledit',
+  displayName: 'ModalEdit',
+  extensionId: 'johtela.vscode-modaledit',
+  configSection: 'modaledit',
+  modeMap: { normal: 'normal', insert: 'insert', visual: 'visual', search: 'search' },
+  selectionModes: ['visual'],
+  defaultCursorStyleMap: DEFAULT_CURSOR_STYLE_MAP,
+  readCursorStyles: () => {
+    // modaledit.normal.cursorStyle, modaledit.insert.cursorStyle, ...
+    const config = vscode.workspace.getConfiguration('modaledit');
+    const candidates: Record<string, unknown> = {};
+    for (const mode of MODALEDIT_MODES) {
+      candidates[mode] = config.get(`${mode}.cursorStyle`);
+    }
+    return pickCursorStyles(candidates);
+  },
+  refineMode: refineVisualMode,
+  readApi: readModeApi,
+};
+
+/**
+ * VSCodeVim (vscodevim.vim)
+ * Cursor styles come from vim.cursorStylePerMode.<mode>.
+ */
+const VIM_ADAPTER: ModalExtensionAdapter = {
+  id: 'vim',
+  displayName: 'VSCodeVim',
+  extensionId: 'vscodevim.vim',
+  configSection: 'vim.cursorStylePerMode',
+  modeMap: VIM_MODE_MAP,
+  selectionModes: ['visual', 'visualLine', 'visualBlock'],
+  defaultCursorStyleMap: VIM_DEFAULT_CURSOR_STYLE_MAP,
+  readCursorStyles: () => {
+    const config = vscode.workspace.getConfiguration('vim.cursorStylePerMode');
+    return pickCursorStyles({
+      normal: config.get('normal'),
+      insert: config.get('insert'),
+      replace: config.get('replace'),
+      visual: config.get('visual'),
+      visualLine: config.get('visualline'),
+      visualBlock: config.get('visualblock'),
+    });
+  },
+  refineMode: refineVisualMode,
+};
+
+/**
+ * Dance (gregoire.dance)
+ * Kakoune-style: normal mode always has a selection, so modes are told apart by
+ * cursor style only. Cursor styles come from dance.modes.<mode>.cursorStyle.
+ */
+const DANCE_ADAPTER: ModalExtensionAdapter = {
+  id: 'dance',
+  displayName: 'Dance',
+  extensionId: 'gregoire.dance',
+  configSection: 'dance.modes',
+  modeMap: { normal: 'normal', insert: 'insert', select: 'visual', input: 'insert' },
+  selectionModes: [],
+  defaultCursorStyleMap: [
+    { cursorStyle: 'block', mode: 'normal' },
+    { cursorStyle: 'block-outline', mode: 'normal' },
+    { cursorStyle: 'line', mode: 'insert' },
+    { cursorStyle: 'line-thin', mode: 'insert' },
+    { cursorStyle: 'underline', mode: 'select' },
+    { cursorStyle: 'underline-thin', mode: 'select' },
+  ],
+  readCursorStyles: () => {
+    const modes =
+      vscode.workspace
+        .getConfiguration('dance')
+        .get<Record<string, { cursorStyle?: unknown }>>('modes') ?? {};
+    const candidates: Record<string, unknown> = {};
+    for (const [mode, modeConfig] of Object.entries(modes)) {
+      if (mode) {
+        candidates[mode] = modeConfig?.cursorStyle;
+      }
+    }
+    return pickCursorStyles(candidates);
+  },
+};
+
+/**
+ * vscode-neovim (asvetliakov.vscode-neovim)
+ * Cursor styles follow Neovim's 'guicursor', which lives in the Neovim config,
+ * so only the Vim-like default table is available.
+ */
+const NEOVIM_ADAPTER: ModalExtensionAdapter = {
+  id: 'neovim',
+  displayName: 'vscode-neovim',
+  extensionId: 'asvetliakov.vscode-neovim',
+  modeMap: VIM_MODE_MAP,
+  selectionModes: ['visual', 'visualLine', 'visualBlock'],
+  defaultCursorStyleMap: VIM_DEFAULT_CURSOR_STYLE_MAP,
+  readCursorStyles: () => ({}),
+  refineMode: refineVisualMode,
+};
+
+/**
+ * Standalone - no modal editing extension installed.
+ * Without modes to detect, the cursor line gets the plain style and a selection
+ * the visual style (refined to visualLine / visualBlock); modes announced
+ * through the setMode command still apply.
+ */
+const STANDALONE_ADAPTER: ModalExtensionAdapter = {
+  id: 'standalone',
+  displayName: 'Standalone',
+  modeMap: { plain: 'plain', visual: 'visual' },
+  selectionModes: ['visual'],
+  defaultCursorStyleMap: Object.values(CURSOR_STYLE_NAMES).flatMap(cursorStyle => [
+    { cursorStyle, selection: true, mode: 'visual' },
+    { cursorStyle, selection: false, mode: 'plain' },
+  ]),
+  readCursorStyles: () => ({}),
+  refineMode: refineVisualMode,
+};
+
+/**
+ * All adapters, in 'auto' selection priority order.
+ * ModalEdit comes first: it is the one this extension is built around and stays
+ * the default whenever it is installed, even next to another modal extension.
+ * Standalone comes last - it is used when none of them is installed.
+ */
+export const MODAL_EXTENSION_ADAPTERS: ModalExtensionAdapter[] = [
+  MODALEDIT_ADAPTER,
+  VIM_ADAPTER,
+  DANCE_ADAPTER,
+  NEOVIM_ADAPTER,
+  STANDALONE_ADAPTER,
+];
+
+/**
+ * Get the installed (and enabled) extension of an adapter
+ *
+ * @param adapter - Adapter to look up
+ * @returns The extension, or undefined when it is not installed or the adapter has none
+ */
+export function getAdapterExtension(
+  adapter: ModalExtensionAdapter
+): vscode.Extension<unknown> | undefined {
+  return adapter.extensionId ? vscode.extensions.getExtension(adapter.extensionId) : undefined;
+}
+
+/**
+ * Get the adapter for an id
+ *
+ * @param id - Adapter id
+ * @returns Matching adapter, or the ModalEdit adapter for unknown ids
+ */
+export function getAdapter(id: string): ModalExtensionAdapter {
+  return MODAL_EXTENSION_ADAPTERS.find(adapter => adapter.id === id) ?? MODALEDIT_ADAPTER;
+}
+
+/**
+ * Select the adapter for the modeDetection.adapter setting
+ *
+ * 'auto' picks the first installed extension in MODAL_EXTENSION_ADAPTERS order
+ * (ModalEdit first), falling back to standalone when none is installed.
+ *
+ * @param setting - Value of modeDetection.adapter ('auto' or an adapter id)
+ * @param isInstalled - Whether an adapter's extension is installed and enabled
+ * @returns Selected adapter
+ */
+export function selectAdapter(
+  setting: string,
+  isInstalled: (adapter: ModalExtensionAdapter) => boolean = adapter =>
+    !!getAdapterExtension(adapter)
+): ModalExtensionAdapter {
+  if (setting !== 'auto') {
+    return getAdapter(setting);
+  }
+
+  return MODAL_EXTENSION_ADAPTERS.find(isInstalled) ?? STANDALONE_ADAPTER;
+}
+
+/**
+ * Map an extension mode onto an indicator mode
+ *
+ * Modes the indicator can display are used directly - built-in modes such as
+ * 'search' in a user-defined cursor style map, or registered modes such as
+ * Vim's 'replace' when it is declared in the `modes` setting. Other modes go
+ * through the adapter's mode map.
+ *
+ * @param adapter - Active adapter
+ * @param mode - Mode name from the cursor style table
+ * @param modeNames - Modes the indicator can display (built-in and registered)
+ * @returns Indicator mode, or undefined if the name is unknown
+ */
+export function toIndicatorMode(
+  adapter: ModalExtensionAdapter,
+  mode: string,
+  modeNames: readonly Mode[] = INDICATOR_MODES
+): Mode | undefined {
+  return modeNames.includes(mode) ? mode : adapter.modeMap[mode];
+}
+
+/**
+ * All mode names a cursor style table may use with an adapter
+ *
+ * @param adapter - Active adapter
+ * @returns Indicator modes plus the adapter's own modes
+ */
+export function getValidModeNames(adapter: ModalExtensionAdapter): string[] {
+  return [...new Set([...INDICATOR_MODES, ...Object.keys(adapter.modeMap)])];
+}
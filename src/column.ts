@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+
+/**
+ * Tab size used when the editor doesn't report one
+ */
+const DEFAULT_TAB_SIZE = 4;
+
+/**
+ * Visual column of a character: tabs advance to the next tab stop
+ *
+ * @param text - Line text
+ * @param character - Character index in the line
+ * @param tabSize - Editor tab size
+ * @returns Column on screen (0-based)
+ */
+export function visualColumn(text: string, character: number, tabSize: number): number {
+  let column = 0;
+  for (let i = 0; i < character && i < text.length; i++) {
+    column = text[i] === '\t' ? column + tabSize - (column % tabSize) : column + 1;
+  }
+  return column + Math.max(character - text.length, 0);
+}
+
+/**
+ * Character of a line that covers a visual column
+ *
+ * @param text - Line text
+ * @param column - Column on screen (0-based)
+ * @param tabSize - Editor tab size
+ * @returns Character index, or undefined if the line ends before the column
+ */
+export function characterAtColumn(
+  text: string,
+  column: number,
+  tabSize: number
+): number | undefined {
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const end = text[i] === '\t' ? start + tabSize - (start % tabSize) : start + 1;
+    if (column < end) {
+      return i;
+    }
+    start = end;
+  }
+  return undefined;
+}
+
+/**
+ * Calculate the cells of the primary cursor's column (crosshair) on the
+ * visible lines around the cursor
+ *
+ * Only lines in editor.visibleRanges are visited, so the cost depends on the
+ * viewport, not the document. The cursor line itself is left to the line
+ * decoration, and lines that end before the column have no cell.
+ *
+ * @param editor - Focused editor
+ * @param radius - Lines above and below the cursor, undefined for all visible lines
+ * @returns One single-character range per line that reaches the cursor column
+ */
+export function getColumnRanges(editor: vscode.TextEditor, radius?: number): vscode.Range[] {
+  const cursor = editor.selection.active;
+  const tabSize =
+    typeof editor.options.tabSize === 'number' ? editor.options.tabSize : DEFAULT_TAB_SIZE;
+  const document = editor.document;
+  const column = visualColumn(document.lineAt(cursor.line).text, cursor.character, tabSize);
+  const firstLine = radius === undefined ? 0 : cursor.line - radius;
+  const lastLine = radius === undefined ? document.lineCount - 1 : cursor.line + radius;
+
+  const ranges: vscode.Range[] = [];
+  const visited = new Set<number>(); // Visible ranges can share a line at folds
+  for (const visible of editor.visibleRanges) {
+    const start = Math.max(visible.start.line, firstLine);
+    const end = Math.min(visible.end.line, lastLine, document.lineCount - 1);
+    for (let line = start; line <= end; line++) {
+      if (line === cursor.line || visited.has(line)) {
+        continue;
+      }
+      visited.add(line);
+      const character = characterAtColumn(document.lineAt(line).text, column, tabSize);
+      if (character !== undefined) {
+        ranges.push(new vscode.Range(line, character, line, character + 1));
+      }
+    }
+  }
+  return ranges;
+}
@@ -1,4 +1,35 @@
 import * as vscode from 'vscode';
+import { getValidModeNames, ModalExtensionAdapter } from './adapters';
+import {
+  buildCursorStyleMap,
+  CursorStyleMapResult,
+  CursorStyleRule,
+  INDICATOR_MODES,
+  prependCursorStyleRules,
+  validateCursorStyleMap,
+} from './modeDetection';
+
+/**
+ * Built-in editing modes, each configured through its own `<mode>Mode` setting
+ * (visualLine and visualBlock are sub-modes of visual, see PARENT_MODES;
+ * plain is the cursor line without a modal extension; unknown is shown when
+ * the detector can't tell the mode)
+ */
+export type BuiltInMode =
+  | 'normal'
+  | 'insert'
+  | 'visual'
+  | 'visualLine'
+  | 'visualBlock'
+  | 'search'
+  | 'plain'
+  | 'unknown';
+
+/**
+ * Editing modes the indicator can display: a built-in mode or a mode
+ * declared in the `modes` registry setting (e.g. 'replace', 'operatorPending')
+ */
+export type Mode = string;
 
 /**
  * Theme kind supported by VS Code
@@ -59,6 +90,9 @@ export interface DecorationConfig {
   // ===== Advanced =====
   rangeBehavior?: string; // 'OpenOpen' | 'ClosedClosed' | 'OpenClosed' | 'ClosedOpen'
 
+  // ===== Indicator (translated, not passed to VS Code as is) =====
+  renderTarget?: string; // 'wholeLine' | 'text' | 'gutter' | 'overviewRuler' (default: wholeLine)
+
   // ===== Attachments (deferred - complex) =====
   // before?: ThemableDecorationAttachmentRenderOptions;
   // after?: ThemableDecorationAttachmentRenderOptions;
@@ -83,7 +117,93 @@ export type ThemeOverride = DecorationConfig;
  * Each property is resolved independently through the fallback chain,
  * enabling selective overrides.
  */
-export interface ModeConfig extends DecorationConfig {
+export interface ModeConfig extends ModeVariantConfig {
+  // Which lines the mode decorates (default: cursorLine, visual: selectionBounds)
+  rangePolicy?: RangePolicy;
+  // How long (ms) a mode change into / out of this mode must be observed before it is shown
+  enterDelay?: number;
+  exitDelay?: number;
+
+  // Style in visible editors without focus (split views)
+  inactive?: ModeVariantConfig;
+  // Style on secondary cursor lines (multiple cursors)
+  secondaryCursor?: ModeVariantConfig;
+  // Styles framing a multi-line selection (rangePolicy: selectionBounds)
+  firstLine?: ModeVariantConfig;
+  middleLines?: ModeVariantConfig;
+  lastLine?: ModeVariantConfig;
+
+  // Cursor column highlight (crosshair), off unless enabled
+  column?: ColumnConfig;
+}
+
+/**
+ * Cursor column highlight of a mode: its style plus when and how far it is drawn
+ */
+export interface ColumnConfig extends ModeVariantConfig {
+  enabled?: boolean; // Highlight the cursor column (default: false)
+  radius?: number; // Lines above and below the cursor (default: all visible lines)
+}
+
+/**
+ * Resolved cursor column highlight of a mode
+ */
+export interface ColumnHighlightConfig {
+  enabled: boolean; // Highlight the cursor column in the focused editor
+  radius?: number; // Lines above and below the cursor, undefined for all visible lines
+  style: MergedModeConfig; // Resolved decoration of the column cells
+}
+
+/**
+ * Where a decoration is drawn
+ * - wholeLine: the full editor width of each line
+ * - text: the text of each line, from the first non-whitespace character
+ * - gutter: only a bar in the gutter
+ * - overviewRuler: only a mark in the overview ruler
+ */
+export type RenderTarget = 'wholeLine' | 'text' | 'gutter' | 'overviewRuler';
+
+/**
+ * All render targets
+ */
+export const RENDER_TARGETS: RenderTarget[] = ['wholeLine', 'text', 'gutter', 'overviewRuler'];
+
+/**
+ * Which lines a mode decorates in the focused editor
+ * - cursorLine: the line of each cursor
+ * - selectionLines: every line of each selection, each in the mode's style
+ * - selectionBounds: every line of each selection, framed as one block
+ *   (firstLine, middleLines and lastLine styles)
+ */
+export type RangePolicy = 'cursorLine' | 'selectionLines' | 'selectionBounds';
+
+/**
+ * Range policy of built-in modes without a rangePolicy setting
+ * (sub-modes use their parent mode's policy)
+ */
+export const DEFAULT_RANGE_POLICIES: Partial<Record<BuiltInMode, RangePolicy>> = {
+  normal: 'cursorLine',
+  insert: 'cursorLine',
+  visual: 'selectionBounds',
+  search: 'cursorLine',
+  plain: 'cursorLine',
+  unknown: 'cursorLine',
+};
+
+/**
+ * Sub-modes and the mode they fall back to: unset properties, variants and
+ * rangePolicy of a sub-mode come from the parent mode's settings
+ */
+export const PARENT_MODES: Partial<Record<BuiltInMode, BuiltInMode>> = {
+  visualLine: 'visual',
+  visualBlock: 'visual',
+};
+
+/**
+ * Decoration configuration with optional theme-specific overrides
+ * Used for a mode itself and for its variants (e.g. `inactive`)
+ */
+export interface ModeVariantConfig extends DecorationConfig {
   // Theme-specific overrides (no brackets, shorter HC names)
   dark?: ThemeOverride;
   light?: ThemeOverride;
@@ -91,6 +211,88 @@ export interface ModeConfig extends DecorationConfig {
   lightHC?: ThemeOverride;
 }
 
+/**
+ * Decoration variant of a mode
+ * - active: primary cursor line (or selection) of the focused editor
+ * - inactive: cursor lines of other visible editors (split views)
+ * - secondaryCursor: secondary cursor lines (or selections) of the focused editor
+ * - firstLine, middleLines, lastLine: frame of a multi-line selection (selectionBounds)
+ */
+export type DecorationVariant =
+  | 'active'
+  | 'inactive'
+  | 'secondaryCursor'
+  | 'firstLine'
+  | 'middleLines'
+  | 'lastLine';
+
+/**
+ * All decoration variants, in the order decorations are created
+ */
+export const DECORATION_VARIANTS: DecorationVariant[] = [
+  'active',
+  'inactive',
+  'secondaryCursor',
+  'firstLine',
+  'middleLines',
+  'lastLine',
+];
+
+/**
+ * Multi-cursor highlighting settings
+ */
+export interface MultiCursorConfig {
+  enabled: boolean; // Highlight all cursor lines, not just the primary one
+  maxCursors: number; // Cap on highlighted cursor lines per editor (primary included)
+}
+
+/**
+ * Minimum time (ms) a mode change must be observed before it is shown
+ * A change from A to B waits max(A.exit, B.enter).
+ */
+export interface ModeTransitionDelays {
+  enter: number; // Changes into the mode
+  exit: number; // Changes out of the mode
+}
+
+/**
+ * Upper bound for enterDelay / exitDelay, so a typo can't freeze the indicator
+ */
+export const MAX_TRANSITION_DELAY_MS = 2000;
+
+/**
+ * Anchor line marker settings (line where a visual selection started)
+ */
+export interface AnchorLineConfig {
+  enabled: boolean; // Mark the anchor line in visual mode
+  style: MergedModeConfig; // Resolved decoration of the anchor line
+}
+
+/**
+ * Cursor style condition that selects a registered mode
+ * (a cursorStyleMap rule without the mode, which is the registry key)
+ */
+export type ModeDetectionRule = Omit<CursorStyleRule, 'mode'>;
+
+/**
+ * Entry of the `modes` registry setting
+ *
+ * Same decoration properties and theme overrides as the built-in `<mode>Mode`
+ * settings, plus optional detection rules.
+ */
+export interface RegisteredModeConfig extends ModeConfig {
+  detection?: ModeDetectionRule[];
+}
+
+/**
+ * Result of reading the `modes` registry setting
+ */
+export interface ModeRegistry {
+  modes: Record<string, RegisteredModeConfig>; // Valid entries by mode name
+  detectionRules: CursorStyleRule[]; // Valid detection rules of all entries, in setting order
+  problems: string[]; // Human-readable descriptions of invalid entries
+}
+
 /**
  * Merged configuration after applying theme overrides
  * Now supports ALL DecorationConfig properties instead of just 4 required ones
@@ -141,6 +343,70 @@ export const DEFAULT_SEARCH_MODE: MergedModeConfig = {
   border: '2px solid #aaaa00',
 };
 
+/**
+ * Default configuration for plain mode (standalone, no modal extension)
+ * Thin neutral border: marks the cursor line without suggesting a mode
+ */
+export const DEFAULT_PLAIN_MODE: MergedModeConfig = {
+  backgroundColor: 'rgba(255, 255, 255, 0)',
+  border: '1px solid #808080',
+};
+
+/**
+ * Default configuration for unknown mode
+ * Grey dashed border on a grey tint: clearly neither insert nor normal
+ */
+export const DEFAULT_UNKNOWN_MODE: MergedModeConfig = {
+  backgroundColor: 'rgba(128, 128, 128, 0.1)',
+  border: '2px dashed #808080',
+};
+
+/**
+ * Default configuration for modes from the `modes` registry
+ * Neutral grey so an unstyled registered mode is still visible
+ */
+export const DEFAULT_REGISTERED_MODE: MergedModeConfig = {
+  backgroundColor: 'rgba(255, 255, 255, 0)',
+  border: '2px solid #888888',
+};
+
+/**
+ * Default configuration for the anchor line marker
+ * Faint visual-mode blue, plus a mark in the overview ruler
+ */
+export const DEFAULT_ANCHOR_LINE: MergedModeConfig = {
+  backgroundColor: 'rgba(0, 0, 170, 0.15)',
+  overviewRulerColor: '#0000aa',
+};
+
+/**
+ * Default configuration for the cursor column highlight
+ * Faint grey cell background, readable on dark and light themes
+ */
+export const DEFAULT_COLUMN_STYLE: MergedModeConfig = {
+  backgroundColor: 'rgba(128, 128, 128, 0.25)',
+};
+
+/**
+ * Default configuration for the initializing style
+ * Thin grey dotted border, shown until the modal extension is ready
+ */
+export const DEFAULT_INITIALIZING_STYLE: MergedModeConfig = {
+  backgroundColor: 'rgba(255, 255, 255, 0)',
+  border: '1px dotted #808080',
+};
+
+/**
+ * Alpha applied to hex border and outline colors of the inactive variant defaults
+ * (80 = 50% opacity)
+ */
+const INACTIVE_COLOR_ALPHA = '80';
+
+/**
+ * Mode names allowed as keys of the `modes` registry setting
+ */
+const MODE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
 /**
  * Configuration Manager - Singleton class for managing mode configurations
  *
@@ -182,16 +448,268 @@ export class ConfigurationManager {
   /**
    * Get merged configuration for a specific mode
    *
-   * This is the ONLY public API method. It handles everything:
+   * This is the main public API method. It handles everything:
    * 1. Read VS Code configuration
    * 2. Detect current theme
    * 3. Apply cascading fallback
    * 4. Merge with defaults
    *
+   * Variants resolve through the same cascade on the mode's variant object
+   * (e.g. `inactive`). Defaults are the mode's own style - faded for the
+   * inactive variant, with open top/bottom border sides for the frame variants.
+   *
+   * Sub-modes (e.g. visualLine) resolve over their parent mode: the parent's
+   * resolved style is the default, and the parent's variant objects come
+   * between the sub-mode's variant object and the derived variant defaults.
+   *
    * @param mode - The mode to get configuration for
+   * @param variant - Decoration variant (default: active)
    * @returns Complete merged configuration with all properties resolved
    */
-  public getConfig(mode: 'normal' | 'insert' | 'visual' | 'search'): MergedModeConfig {
+  public getConfig(mode: Mode, variant: DecorationVariant = 'active'): MergedModeConfig {
+    const modeConfig = this.getModeConfig(mode);
+    const parent = this.getParentMode(mode);
+    const defaults = parent ? this.getConfig(parent) : this.getDefaultsForMode(mode);
+    const active = this.getMergedModeConfig(modeConfig, defaults);
+
+    if (variant === 'active') {
+      return active;
+    }
+
+    let variantDefaults = this.getVariantDefaults(active, variant);
+    if (parent) {
+      variantDefaults = this.getMergedModeConfig(
+        this.getModeConfig(parent)[variant] ?? {},
+        variantDefaults
+      );
+    }
+    return this.getMergedModeConfig(modeConfig[variant] ?? {}, variantDefaults);
+  }
+
+  /**
+   * Get the mode a sub-mode falls back to
+   *
+   * @param mode - Built-in or registered mode
+   * @returns Parent mode (e.g. visual for visualLine), or undefined for other modes
+   */
+  public getParentMode(mode: Mode): Mode | undefined {
+    return this.isBuiltInMode(mode) ? PARENT_MODES[mode] : undefined;
+  }
+
+  /**
+   * Get the range policy of a mode
+   *
+   * @param mode - Built-in or registered mode
+   * @returns The mode's rangePolicy setting, or its default (cursorLine, selectionBounds for visual)
+   */
+  public getRangePolicy(mode: Mode): RangePolicy {
+    const policy = this.getModeConfig(mode).rangePolicy;
+    if (policy === 'cursorLine' || policy === 'selectionLines' || policy === 'selectionBounds') {
+      return policy;
+    }
+    if (policy !== undefined) {
+      this.logger?.debug(`Unknown rangePolicy '${String(policy)}' for ${mode} mode`);
+    }
+
+    const parent = this.getParentMode(mode);
+    if (parent) {
+      return this.getRangePolicy(parent);
+    }
+    return (this.isBuiltInMode(mode) && DEFAULT_RANGE_POLICIES[mode]) || 'cursorLine';
+  }
+
+  /**
+   * Get the transition delays of a mode (sub-modes fall back to their parent mode)
+   *
+   * @param mode - Built-in or registered mode
+   * @returns Enter and exit delays in ms, 0 (immediate) unless set
+   */
+  public getTransitionDelays(mode: Mode): ModeTransitionDelays {
+    const modeConfig = this.getModeConfig(mode);
+    const parent = this.getParentMode(mode);
+    const inherited = parent ? this.getTransitionDelays(parent) : { enter: 0, exit: 0 };
+
+    const toDelay = (value: unknown, fallback: number): number =>
+      typeof value === 'number' && Number.isFinite(value)
+        ? Math.min(Math.max(Math.round(value), 0), MAX_TRANSITION_DELAY_MS)
+        : fallback;
+    return {
+      enter: toDelay(modeConfig.enterDelay, inherited.enter),
+      exit: toDelay(modeConfig.exitDelay, inherited.exit),
+    };
+  }
+
+  /**
+   * Get the cursor column highlight of a mode
+   *
+   * The mode's `column` object resolves through the theme override cascade
+   * over DEFAULT_COLUMN_STYLE. Sub-modes fall back to their parent mode's
+   * `column` for everything they don't set.
+   *
+   * @param mode - Built-in or registered mode
+   * @returns Whether the column is highlighted, how far, and its resolved decoration
+   */
+  public getColumnConfig(mode: Mode): ColumnHighlightConfig {
+    const column = this.getModeConfig(mode).column ?? {};
+    const parent = this.getParentMode(mode);
+    const inherited = parent
+      ? this.getColumnConfig(parent)
+      : { enabled: false, radius: undefined, style: DEFAULT_COLUMN_STYLE };
+
+    const radius =
+      typeof column.radius === 'number' && Number.isFinite(column.radius)
+        ? Math.max(Math.floor(column.radius), 0)
+        : inherited.radius;
+    return {
+      enabled: column.enabled ?? inherited.enabled,
+      radius,
+      style: this.getMergedModeConfig(column, inherited.style),
+    };
+  }
+
+  /**
+   * Default style of a mode variant, derived from the mode's resolved style
+   *
+   * @param active - Resolved style of the mode
+   * @param variant - Variant other than active
+   * @returns Defaults for the variant's cascade
+   */
+  private getVariantDefaults(
+    active: MergedModeConfig,
+    variant: Exclude<DecorationVariant, 'active'>
+  ): MergedModeConfig {
+    // Frame sides: top+sides on the first line, sides only in between, bottom+sides on the last
+    const width = this.getBorderWidth(active);
+    switch (variant) {
+      case 'inactive':
+        return this.fadeDecoration(active);
+      case 'secondaryCursor':
+        return active;
+      case 'firstLine':
+        return { ...active, borderWidth: `${width} ${width} 0 ${width}` };
+      case 'middleLines':
+        return { ...active, borderWidth: `0 ${width}` };
+      case 'lastLine':
+        return { ...active, borderWidth: `0 ${width} ${width} ${width}` };
+    }
+  }
+
+  /**
+   * Get the border width of a resolved style (from borderWidth or the border shorthand)
+   *
+   * @param config - Resolved decoration configuration
+   * @returns Single CSS length, '2px' when none is set
+   */
+  private getBorderWidth(config: MergedModeConfig): string {
+    const cssLength = /^\d*\.?\d+(px|em|rem)$/;
+    const candidates = [
+      ...(config.borderWidth?.split(/\s+/) ?? []),
+      ...(config.border?.split(/\s+/) ?? []),
+    ];
+    return candidates.find(token => cssLength.test(token)) ?? '2px';
+  }
+
+  /**
+   * Get where a resolved style is drawn
+   *
+   * @param config - Resolved decoration configuration (of a mode variant or another style)
+   * @returns Its renderTarget, wholeLine when unset or invalid
+   */
+  public getRenderTarget(config: MergedModeConfig): RenderTarget {
+    const target = config.renderTarget;
+    if (RENDER_TARGETS.includes(target as RenderTarget)) {
+      return target as RenderTarget;
+    }
+    if (target !== undefined) {
+      this.logger?.debug(`Unknown renderTarget '${target}'`);
+    }
+    return 'wholeLine';
+  }
+
+  /**
+   * Get the color that represents a resolved style where only a color can be
+   * shown (gutter bar, overview ruler mark)
+   *
+   * @param config - Resolved decoration configuration
+   * @returns overviewRulerColor, borderColor, the color of the border shorthand,
+   *   or backgroundColor - the first one set
+   */
+  public getIndicatorColor(config: MergedModeConfig): string {
+    const cssColor = /#[0-9a-fA-F]{3,8}\b|(rgb|hsl)a?\([^)]*\)/;
+    const borderKeywords = [
+      ...['none', 'hidden', 'dotted', 'dashed', 'solid', 'double', 'groove', 'ridge', 'inset'],
+      ...['outset', 'thin', 'medium', 'thick'],
+    ];
+    const borderColor =
+      config.border?.match(cssColor)?.[0] ??
+      config.border
+        ?.split(/\s+/)
+        .find(token => /^[a-zA-Z]+$/.test(token) && !borderKeywords.includes(token)); // Named color
+    return (
+      config.overviewRulerColor ??
+      config.borderColor ??
+      borderColor ??
+      config.backgroundColor ??
+      '#808080'
+    );
+  }
+
+  /**
+   * Get the multi-cursor highlighting settings
+   *
+   * @returns Whether all cursor lines are highlighted, and the cap on highlighted lines
+   */
+  public getMultiCursorConfig(): MultiCursorConfig {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    return {
+      enabled: config.get<boolean>('multiCursor.enabled', true),
+      maxCursors: Math.max(Math.floor(config.get<number>('multiCursor.maxCursors', 200)), 1),
+    };
+  }
+
+  /**
+   * Get the anchor line marker settings
+   *
+   * The `anchorLine.style` object resolves through the same theme override
+   * cascade as a mode, over DEFAULT_ANCHOR_LINE.
+   *
+   * @returns Whether the anchor line is marked, and its resolved decoration
+   */
+  public getAnchorLineConfig(): AnchorLineConfig {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    return {
+      enabled: config.get<boolean>('anchorLine.enabled', false),
+      style: this.getMergedModeConfig(
+        config.get<ModeVariantConfig>('anchorLine.style') ?? {},
+        DEFAULT_ANCHOR_LINE
+      ),
+    };
+  }
+
+  /**
+   * Get the style shown on cursor lines while the modal extension initializes
+   *
+   * @returns `initializingStyle` resolved through the theme override cascade
+   */
+  public getInitializingStyle(): MergedModeConfig {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    return this.getMergedModeConfig(
+      config.get<ModeVariantConfig>('initializingStyle') ?? {},
+      DEFAULT_INITIALIZING_STYLE
+    );
+  }
+
+  /**
+   * Read the raw configuration of a mode from settings
+   *
+   * @param mode - Built-in or registered mode
+   * @returns Mode configuration (schema defaults for built-in modes without user settings)
+   */
+  private getModeConfig(mode: Mode): ModeConfig {
+    if (!this.isBuiltInMode(mode)) {
+      return this.getModeRegistry().modes[mode] ?? {};
+    }
+
     // Get VS Code configuration
     const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
     const modeConfigKey = `${mode}Mode`;
@@ -207,9 +725,162 @@ export class ConfigurationManager {
       );
     }
 
-    // Get defaults and merge
-    const defaults = this.getDefaultsForMode(mode);
-    return this.getMergedModeConfig(modeConfig, defaults);
+    return modeConfig;
+  }
+
+  /**
+   * Fade the border and outline colors of a decoration (inactive variant defaults)
+   *
+   * Hex colors (#rgb, #rrggbb) get 50% alpha; other color notations are kept.
+   *
+   * @param config - Resolved decoration configuration
+   * @returns Copy with faded border and outline colors
+   */
+  private fadeDecoration(config: MergedModeConfig): MergedModeConfig {
+    const fade = (value: string | undefined): string | undefined =>
+      value
+        ?.replace(/#([0-9a-fA-F]{6})\b/g, `#$1${INACTIVE_COLOR_ALPHA}`)
+        .replace(/#([0-9a-fA-F]{3})\b/g, `#$1${INACTIVE_COLOR_ALPHA[0]}`);
+
+    const faded: MergedModeConfig = { ...config };
+    for (const prop of ['border', 'borderColor', 'outline', 'outlineColor'] as const) {
+      if (faded[prop] !== undefined) {
+        faded[prop] = fade(faded[prop]);
+      }
+    }
+    return faded;
+  }
+
+  /**
+   * Get all modes the indicator can display
+   *
+   * @returns Built-in modes followed by the modes of the `modes` registry
+   */
+  public getModeNames(): Mode[] {
+    return [...INDICATOR_MODES, ...Object.keys(this.getModeRegistry().modes)];
+  }
+
+  /**
+   * Read the `modes` registry setting
+   *
+   * Entries with an invalid name, a built-in mode name (those are configured through
+   * `<mode>Mode`) or a non-object value are dropped. Detection rules are validated
+   * like cursorStyleMap rules; invalid rules are dropped, the mode is kept.
+   *
+   * @returns Valid modes, their detection rules and a list of problems
+   */
+  public getModeRegistry(): ModeRegistry {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const rawModes = config.get<Record<string, unknown>>('modes') ?? {};
+
+    const modes: Record<string, RegisteredModeConfig> = {};
+    const detectionRules: CursorStyleRule[] = [];
+    const problems: string[] = [];
+
+    for (const [name, value] of Object.entries(rawModes)) {
+      if (!MODE_NAME_PATTERN.test(name)) {
+        problems.push(`'${name}' is not a valid mode name (letters, digits, '-' and '_')`);
+        continue;
+      }
+      if (this.isBuiltInMode(name)) {
+        problems.push(`'${name}' is a built-in mode - configure it with the ${name}Mode setting`);
+        continue;
+      }
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        problems.push(`'${name}' must be an object with decoration properties`);
+        continue;
+      }
+
+      const modeConfig = value as RegisteredModeConfig;
+      modes[name] = modeConfig;
+
+      if (modeConfig.detection === undefined) {
+        continue;
+      }
+      if (!Array.isArray(modeConfig.detection)) {
+        problems.push(`'${name}' detection must be an array of rules`);
+        continue;
+      }
+
+      const validation = validateCursorStyleMap(
+        modeConfig.detection.map(rule => ({ ...rule, mode: name })),
+        [name]
+      );
+      detectionRules.push(...validation.rules);
+      problems.push(...validation.problems.map(problem => `'${name}' detection: ${problem}`));
+    }
+
+    return { modes, detectionRules, problems };
+  }
+
+  /**
+   * Get the cursor style → mode table used for mode detection
+   *
+   * Resolution order:
+   * 1. `modeDetection.cursorStyleMap` when set explicitly by the user
+   * 2. Table derived from the modal extension's cursor style settings
+   *    (e.g. ModalEdit's `modaledit.<mode>.cursorStyle`)
+   * 3. The adapter's default table
+   *
+   * Detection rules of registered modes (`modes` setting) take precedence over
+   * the resulting table.
+   *
+   * Invalid entries are dropped and reported in `problems` together with
+   * conflicting rules or ambiguous cursor styles.
+   *
+   * @param adapter - Adapter of the modal extension in use
+   * @returns Usable rules, their source and a list of problems
+   */
+  public getCursorStyleMap(adapter: ModalExtensionAdapter): CursorStyleMapResult {
+    const registry = this.getModeRegistry();
+    const result = this.getBaseCursorStyleMap(adapter, Object.keys(registry.modes));
+
+    return {
+      ...result,
+      rules: prependCursorStyleRules(registry.detectionRules, result.rules),
+    };
+  }
+
+  /**
+   * Get the cursor style table from settings, the modal extension or the adapter defaults
+   *
+   * @param adapter - Adapter of the modal extension in use
+   * @param registeredModes - Modes of the `modes` registry (valid in cursorStyleMap rules)
+   * @returns Usable rules, their source and a list of problems
+   */
+  private getBaseCursorStyleMap(
+    adapter: ModalExtensionAdapter,
+    registeredModes: Mode[]
+  ): CursorStyleMapResult {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const inspected = config.inspect<unknown>('modeDetection.cursorStyleMap');
+    const userMap =
+      inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+
+    if (userMap !== undefined) {
+      return {
+        ...validateCursorStyleMap(userMap, [...getValidModeNames(adapter), ...registeredModes]),
+        source: 'settings',
+      };
+    }
+
+    const extensionStyles = adapter.readCursorStyles();
+    if (Object.keys(extensionStyles).length > 0) {
+      this.logger?.debug(
+        `Deriving cursor style map from ${adapter.displayName} settings`,
+        extensionStyles
+      );
+      return {
+        ...buildCursorStyleMap(extensionStyles, {
+          extensionName: adapter.displayName,
+          selectionModes: adapter.selectionModes,
+          defaultRules: adapter.defaultCursorStyleMap,
+        }),
+        source: 'extension',
+      };
+    }
+
+    return { rules: adapter.defaultCursorStyleMap, problems: [], source: 'default' };
   }
 
   /**
@@ -218,7 +889,7 @@ export class ConfigurationManager {
    * @param mode - The mode to get defaults for
    * @returns Default configuration for the specified mode
    */
-  private getDefaultsForMode(mode: 'normal' | 'insert' | 'visual' | 'search'): MergedModeConfig {
+  private getDefaultsForMode(mode: Mode): MergedModeConfig {
     switch (mode) {
       case 'normal':
         return DEFAULT_NORMAL_MODE;
@@ -228,9 +899,25 @@ export class ConfigurationManager {
         return DEFAULT_VISUAL_MODE;
       case 'search':
         return DEFAULT_SEARCH_MODE;
+      case 'plain':
+        return DEFAULT_PLAIN_MODE;
+      case 'unknown':
+        return DEFAULT_UNKNOWN_MODE;
+      default:
+        return DEFAULT_REGISTERED_MODE;
     }
   }
 
+  /**
+   * Check whether a mode is one of the built-in modes
+   *
+   * @param mode - Mode name
+   * @returns True for normal, insert, visual (with visualLine and visualBlock), search, plain and unknown
+   */
+  private isBuiltInMode(mode: Mode): mode is BuiltInMode {
+    return (INDICATOR_MODES as string[]).includes(mode);
+  }
+
   /**
    * Get the current active color theme kind from VS Code
    *
@@ -302,13 +989,15 @@ export class ConfigurationManager {
    */
   private resolveProperty(
     propertyName: keyof DecorationConfig,
-    modeConfig: ModeConfig,
+    modeConfig: ModeVariantConfig,
     fallbackChain: string[],
     defaultValue?: string
   ): string | undefined {
     // 1. Check theme-specific overrides in priority order
     for (const themeKey of fallbackChain) {
-      const themeOverride = modeConfig[themeKey as keyof ModeConfig] as ThemeOverride | undefined;
+      const themeOverride = modeConfig[themeKey as keyof ModeVariantConfig] as
+        | ThemeOverride
+        | undefined;
       if (themeOverride?.[propertyName] !== undefined) {
         this.logger?.debug(
           `Resolved ${propertyName} from ${themeKey}: ${themeOverride[propertyName]}`
@@ -359,7 +1048,7 @@ export class ConfigurationManager {
    * @returns Merged configuration with all properties resolved
    */
   private getMergedModeConfig(
-    modeConfig: ModeConfig,
+    modeConfig: ModeVariantConfig,
     defaults: MergedModeConfig
   ): MergedModeConfig {
     const themeKind = this.getCurrentThemeKind();
@@ -377,11 +1066,13 @@ export class ConfigurationManager {
       'backgroundColor',
       'color',
       'opacity',
-      // Border (CSS shorthand only)
+      // Border (CSS shorthand, individual properties override it per side)
       'border',
       'borderColor',
       'borderRadius',
       'borderSpacing',
+      'borderStyle',
+      'borderWidth',
       // Outline
       'outline',
       'outlineColor',
@@ -402,6 +1093,8 @@ export class ConfigurationManager {
       'gutterIconSize',
       // Advanced
       'rangeBehavior',
+      // Indicator
+      'renderTarget',
     ];
 
     // GENERIC RESOLUTION: Loop through all properties
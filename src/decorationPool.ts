@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { DecorationTypes } from './renderer';
+
+/**
+ * Result of swapping in the decoration types for new render options
+ */
+export interface DecorationPoolUpdate {
+  /** Decoration type per key, for all requested keys */
+  types: DecorationTypes;
+
+  /** Previous types of keys whose type changed or that were dropped - clear them in editors */
+  replaced: Map<string, vscode.TextEditorDecorationType>;
+
+  /** Types created, reused from the pool, and kept unchanged by this update */
+  created: number;
+  reused: number;
+  unchanged: number;
+}
+
+/**
+ * Active decoration type of a key and the fingerprint of its options
+ */
+interface PooledType {
+  fingerprint: string;
+  type: vscode.TextEditorDecorationType;
+}
+
+/**
+ * Comparable form of render options: JSON with sorted object keys, so the
+ * same resolved config always gives the same fingerprint
+ */
+function optionsFingerprint(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(optionsFingerprint).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${optionsFingerprint(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Pool of text editor decoration types keyed by decoration key and resolved
+ * render options
+ *
+ * A key keeps its decoration type as long as its options are unchanged, so a
+ * settings change only replaces the types of the modes it affects. Types that
+ * are swapped out stay in the pool (up to maxIdle, oldest disposed first) and
+ * are reused when the options come back - e.g. switching between a dark and a
+ * light theme. Each type belongs to one key: modes with identical styles
+ * still get separate types, as clearing one must not clear the other.
+ */
+export class DecorationPool implements vscode.Disposable {
+  private active = new Map<string, PooledType>(); // Decoration key → current type
+  private idle = new Map<string, vscode.TextEditorDecorationType>(); // `key|fingerprint`, oldest first
+
+  /**
+   * @param maxIdle - Swapped-out types kept for reuse
+   */
+  constructor(private readonly maxIdle: number = 64) {}
+
+  /**
+   * Swaps in a decoration type for every key. Keys with unchanged options keep
+   * their type; other keys get a pooled or new type. Keys missing from
+   * optionsByKey are dropped.
+   *
+   * @param optionsByKey - Render options per decoration key
+   * @returns New types plus the replaced ones (still valid - clear them, the pool keeps them)
+   */
+  public update(optionsByKey: Map<string, vscode.DecorationRenderOptions>): DecorationPoolUpdate {
+    const result: DecorationPoolUpdate = {
+      types: new Map(),
+      replaced: new Map(),
+      created: 0,
+      reused: 0,
+      unchanged: 0,
+    };
+    const nextActive = new Map<string, PooledType>();
+
+    for (const [key, options] of optionsByKey) {
+      const fingerprint = optionsFingerprint(options);
+      const current = this.active.get(key);
+      if (current?.fingerprint === fingerprint) {
+        nextActive.set(key, current);
+        result.types.set(key, current.type);
+        result.unchanged++;
+        continue;
+      }
+
+      const poolKey = `${key}|${fingerprint}`;
+      let type = this.idle.get(poolKey);
+      if (type) {
+        this.idle.delete(poolKey);
+        result.reused++;
+      } else {
+        type = vscode.window.createTextEditorDecorationType(options);
+        result.created++;
+      }
+      nextActive.set(key, { fingerprint, type });
+      result.types.set(key, type);
+    }
+
+    // Types no longer active go back to the pool
+    for (const [key, current] of this.active) {
+      if (nextActive.get(key)?.type !== current.type) {
+        result.replaced.set(key, current.type);
+        this.idle.set(`${key}|${current.fingerprint}`, current.type);
+      }
+    }
+    this.active = nextActive;
+    this.trimIdle(new Set(result.replaced.values()));
+
+    return result;
+  }
+
+  /**
+   * Number of swapped-out types kept for reuse
+   *
+   * @returns Idle type count
+   */
+  public getIdleCount(): number {
+    return this.idle.size;
+  }
+
+  /**
+   * Disposes the oldest idle types beyond maxIdle
+   *
+   * @param keep - Types just swapped out; the caller still clears them in editors
+   */
+  private trimIdle(keep: Set<vscode.TextEditorDecorationType>): void {
+    for (const [poolKey, type] of this.idle) {
+      if (this.idle.size <= this.maxIdle) {
+        break;
+      }
+      if (keep.has(type)) {
+        continue;
+      }
+      type.dispose();
+      this.idle.delete(poolKey);
+    }
+  }
+
+  public dispose(): void {
+    for (const { type } of this.active.values()) {
+      type.dispose();
+    }
+    for (const type of this.idle.values()) {
+      type.dispose();
+    }
+    this.active.clear();
+    this.idle.clear();
+  }
+}
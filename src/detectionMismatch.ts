@@ -0,0 +1,58 @@
+/**
+ * What to do about a detection mismatch (see MismatchTracker.disagree)
+ */
+export interface MismatchReport {
+  log: boolean; // First mismatch of its kind in a row - log it
+  hint: boolean; // Threshold reached - show the one-time hint
+}
+
+/**
+ * Counts consecutive detection mismatches (typing while a typing-free mode is
+ * shown) and decides when to log them and when to show the one-time hint
+ *
+ * Any agreement between typing and the shown mode ends the run, so the hint
+ * only appears after hintThreshold mismatching edits in a row.
+ */
+export class MismatchTracker {
+  private count = 0; // Consecutive mismatches
+  private lastKey = ''; // Kind of the last logged mismatch
+  private hintShown = false;
+
+  /**
+   * @param hintThreshold - Consecutive mismatches before the hint is shown
+   */
+  constructor(private readonly hintThreshold: number) {}
+
+  /**
+   * Consecutive mismatches so far
+   */
+  public get consecutive(): number {
+    return this.count;
+  }
+
+  /**
+   * Records that typing and the shown mode agree: the run of mismatches ends
+   */
+  public agree(): void {
+    this.count = 0;
+  }
+
+  /**
+   * Records a mismatch
+   *
+   * @param key - Kind of mismatch (mode / cursor style / selection state), logged once in a row
+   * @param hintEnabled - Whether the hint may be shown (`modeDetection.mismatchHint`)
+   * @returns Whether to log the mismatch and whether to show the hint
+   */
+  public disagree(key: string, hintEnabled: boolean): MismatchReport {
+    this.count++;
+    const log = key !== this.lastKey;
+    this.lastKey = key;
+
+    const hint = hintEnabled && !this.hintShown && this.count >= this.hintThreshold;
+    if (hint) {
+      this.hintShown = true;
+    }
+    return { log, hint };
+  }
+}
@@ -2,265 +2,1168 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ExtensionLogger } from './logging';
-import { ConfigurationManager } from './configuration';
+import {
+  ColumnHighlightConfig,
+  ConfigurationManager,
+  DECORATION_VARIANTS,
+  DecorationVariant,
+  MergedModeConfig,
+  Mode,
+  ModeTransitionDelays,
+  MultiCursorConfig,
+  RangePolicy,
+  RenderTarget,
+} from './configuration';
+import {
+  getAdapterExtension,
+  MODAL_EXTENSION_ADAPTERS,
+  ModalExtensionAdapter,
+  ModalExtensionApi,
+  selectAdapter,
+  toIndicatorMode,
+} from './adapters';
+import {
+  createModeDetector,
+  CursorStyleMapSource,
+  CursorStyleRule,
+  DetectionResult,
+  getCursorStyleName,
+  ModeDetector,
+  ModeSource,
+  UnknownFallback,
+} from './modeDetection';
+import { DecorationPool } from './decorationPool';
+import { DecorationRenderer, DecorationTypes } from './renderer';
+import { getColumnRanges } from './column';
+import { decideModeTransition, PendingTransition } from './modeTransitions';
+import { MismatchTracker } from './detectionMismatch';
+import { PollingSchedule, resolvePollingIntervals } from './polling';
+import { getAnchorRanges, getDecorateRanges, getInactiveRanges } from './ranges';
 
-type Mode = 'normal' | 'insert' | 'visual' | 'search';
+/**
+ * Keys of the decorations that don't belong to a mode in DecorationTypes:
+ * the anchor line marker (when enabled) and the initializing style
+ * (mode keys always contain a dot, so they can't collide)
+ */
+const ANCHOR_LINE_KEY = 'anchorLine';
+const INITIALIZING_KEY = 'initializing';
+
+/**
+ * Overview ruler lane of a style's overviewRulerLane keyword
+ *
+ * @param lane - 'Left' | 'Center' | 'Right' | 'Full', or undefined
+ * @returns The lane, Full when unset or invalid
+ */
+function toOverviewRulerLane(lane: string | undefined): vscode.OverviewRulerLane {
+  switch (lane) {
+    case 'Left':
+      return vscode.OverviewRulerLane.Left;
+    case 'Center':
+      return vscode.OverviewRulerLane.Center;
+    case 'Right':
+      return vscode.OverviewRulerLane.Right;
+    default:
+      return vscode.OverviewRulerLane.Full;
+  }
+}
+
+/**
+ * Gutter icon for the gutter render target: a bar in the given color
+ */
+function gutterBarIcon(color: string): vscode.Uri {
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16">' +
+    `<rect x="0" y="0" width="4" height="16" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
+
+/**
+ * Text extent of the lines in whole-line ranges (render target `text`):
+ * one range per line, from the first non-whitespace character to the end of
+ * the line. Lines without text get no range.
+ */
+function textRanges(document: vscode.TextDocument, ranges: vscode.Range[]): vscode.Range[] {
+  const result: vscode.Range[] = [];
+  for (const range of ranges) {
+    for (let line = range.start.line; line <= range.end.line; line++) {
+      const textLine = document.lineAt(line);
+      if (!textLine.isEmptyOrWhitespace) {
+        result.push(
+          new vscode.Range(
+            line,
+            textLine.firstNonWhitespaceCharacterIndex,
+            line,
+            textLine.text.length
+          )
+        );
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Key of a mode's decoration variant in DecorationTypes
+ */
+function decorationKey(mode: Mode, variant: DecorationVariant): string {
+  return `${mode}.${variant}`;
+}
 
-interface DecorationTypes {
-  normal: vscode.TextEditorDecorationType;
-  insert: vscode.TextEditorDecorationType;
-  visual: vscode.TextEditorDecorationType;
-  search: vscode.TextEditorDecorationType;
+/**
+ * Key of a mode's cursor column highlight in DecorationTypes
+ */
+function columnKey(mode: Mode): string {
+  return `${mode}.column`;
+}
+
+/**
+ * Modes in which typing doesn't edit the document (sub-modes count as their parent).
+ * Typing while one of them is shown means the detection is probably wrong.
+ */
+const TYPING_FREE_MODES: Mode[] = ['normal', 'visual', 'search'];
+
+/**
+ * Whether a document change looks like typing: one inserted character per cursor,
+ * not produced by undo/redo. Line breaks are excluded since modal commands such as
+ * "open line" insert them too.
+ */
+function isTypingEdit(event: vscode.TextDocumentChangeEvent): boolean {
+  return (
+    event.reason === undefined &&
+    event.contentChanges.length > 0 &&
+    event.contentChanges.every(
+      change => change.rangeLength === 0 && change.text.length === 1 && change.text !== '\n'
+    )
+  );
+}
+
+/**
+ * Mode change waiting for its transition delay to pass, with its timer
+ */
+interface PendingModeChange extends PendingTransition {
+  timer: NodeJS.Timeout; // Re-checks the editor when the delay is over
+}
+
+/**
+ * Arguments of the setMode command when passed as an object
+ * (e.g. from a keybinding or a ModalEdit command sequence)
+ */
+interface SetModeArgs {
+  mode?: string;
+  uri?: string | vscode.Uri;
+}
+
+/**
+ * Read-only view of the indicator's state, returned by activate() as the
+ * extension's exports (integration tests, diagnostics)
+ */
+export interface LineIndicatorApi {
+  /** Mode shown in an editor, or undefined until the editor is decorated */
+  getShownMode(editor: vscode.TextEditor): Mode | undefined;
+
+  /** Whether the modal extension is ready (the initializing style is gone) */
+  isReady(): boolean;
+
+  /** Interval mode polling runs at, or undefined when polling is off or paused */
+  getEffectivePollingInterval(): number | undefined;
+
+  /** Id of the modal extension adapter in use (see modeDetection.adapter) */
+  getAdapterId(): string;
 }
 
 class ModalEditLineIndicator implements vscode.Disposable {
-  private currentModeCache: Mode = 'insert';
-  private decorations: DecorationTypes;
+  private modeCache = new WeakMap<vscode.TextEditor, Mode>(); // Last applied mode per editor
   private enabled: boolean;
   private disposables: vscode.Disposable[] = [];
-  private updateDebounceTimer: NodeJS.Timeout | null = null;
-  private readonly DEBOUNCE_MS = 10;
+  private readonly DEBOUNCE_MS = 10; // Coalescing window of the renderer
+  private renderer: DecorationRenderer;
+  private decorationPool = new DecorationPool();
+  private decorations: DecorationTypes = new Map();
+  private renderTargets = new Map<string, RenderTarget>(); // Decoration key → render target
+  private readonly READINESS_INTERVAL_MS = 25; // Cursor style sampling during activation
+  private readonly READINESS_STABLE_SAMPLES = 3; // Equal samples that count as stable
+  private readonly READINESS_TIMEOUT_MS = 2000; // Give up waiting after this long
+  private ready = false; // Modal extension ready - until then the initializing style is shown
+  private readinessGeneration = 0; // Bumped on each restart - older readiness waits are stale
+  private disposed = false;
+  private readonly MISMATCH_HINT_THRESHOLD = 3; // Typed characters before the hint is shown
+  private mismatches = new MismatchTracker(this.MISMATCH_HINT_THRESHOLD);
   private modePollTimer: NodeJS.Timeout | null = null;
-  private readonly MODE_POLL_MS = 50; // Check mode every 50ms for instant detection
+  private pollingActive = false; // Polling started - the timer is paused while unfocused
+  private pollSchedule = new PollingSchedule(resolvePollingIntervals(50, 1000, 30000));
+  private windowFocused = vscode.window.state.focused;
   private logger: ExtensionLogger;
-  private lastLoggedStateKey: string = '';
+  private lastLoggedDetectionKey: string = '';
   private configManager: ConfigurationManager;
+  private cursorStyleMap: CursorStyleRule[] = [];
+  private cursorStyleMapSource: CursorStyleMapSource = 'default';
+  private lastReportedProblems = new Map<string, string>();
+  private modeNames: Mode[] = [];
+  private multiCursor: MultiCursorConfig;
+  private rangePolicies = new Map<Mode, RangePolicy>();
+  private columnHighlights = new Map<Mode, ColumnHighlightConfig>(); // Modes with column.enabled
+  private transitionDelays = new Map<Mode, ModeTransitionDelays>();
+  private pendingModes = new Map<vscode.TextEditor, PendingModeChange>();
+  private detector: ModeDetector;
+  private adapter: ModalExtensionAdapter;
+  private modeApi: ModalExtensionApi | undefined; // Mode API exported by the modal extension
+  private modeApiSubscription: vscode.Disposable | undefined;
+  private modalExtensionPresent = false; // Adapter's extension installed and enabled
+  private extensionsChange: Promise<void> = Promise.resolve(); // Serializes extension changes
+  private readonly modalExtensionChanged = new vscode.EventEmitter<boolean>();
+  /** Fires with the new presence when the modal extension is installed or removed at runtime */
+  public readonly onDidChangeModalExtension = this.modalExtensionChanged.event;
+  private modeSource: ModeSource = 'heuristic';
+  private unknownFallback: UnknownFallback = 'unknown';
+  private explicitModes = new Map<string, Mode>(); // Document URI → mode announced via setMode
 
   constructor() {
     this.logger = new ExtensionLogger('ModalEdit Line Indicator');
     this.logger.log('=== ModalEditLineIndicator Constructor ===');
 
     this.configManager = ConfigurationManager.getInstance(this.logger);
+    this.renderer = new DecorationRenderer(
+      editor => this.applyDecorations(editor),
+      this.DEBOUNCE_MS,
+      this.logger
+    );
 
     const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
     this.enabled = config.get<boolean>('enabled', true);
-    this.decorations = this.createDecorations();
+    this.loadModeRegistry();
+    this.multiCursor = this.configManager.getMultiCursorConfig();
+    this.loadDecorations();
+    this.loadRangePolicies();
+    this.loadTransitionDelays();
+    this.adapter = this.selectAdapter();
+    this.loadCursorStyleMap();
+    this.detector = this.createDetector();
+    this.modeSource = this.readModeSource();
+    this.unknownFallback = this.readUnknownFallback();
   }
 
   /**
-   * Creates text editor decoration types for all 4 modes.
-   * Each mode has its own background, border color, border style, and border width.
-   *
-   * @returns Object containing decoration types for normal, insert, visual, and search modes
+   * Selects the modal extension adapter from `modeDetection.adapter`
+   * ('auto' picks the installed modal extension, ModalEdit by default).
    */
-  private createDecorations(): DecorationTypes {
-    this.logger.log('Creating decorations for 4 modes');
+  private selectAdapter(): ModalExtensionAdapter {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const setting = config.get<string>('modeDetection.adapter', 'auto');
+    const adapter = selectAdapter(setting);
 
-    // Helper function to create decoration for a specific mode
-    const createModeDecoration = (mode: Mode): vscode.TextEditorDecorationType => {
-      const config = this.configManager.getConfig(mode);
+    this.logger.log(`Modal extension adapter: ${adapter.displayName}`, {
+      setting,
+      extensionId: adapter.extensionId,
+    });
+    return adapter;
+  }
 
-      this.logger.log(`  ${mode.toUpperCase()}: ${JSON.stringify(config)}`);
+  /**
+   * Connects to the mode API exported by the adapter's extension, if it is active
+   * and exports one. The API is authoritative: it replaces the detector, and its
+   * mode change events redecorate all visible editors (the mode is global).
+   * Extensions without an API keep using the detector.
+   */
+  private connectModeApi(): void {
+    this.disconnectModeApi();
+
+    const modalExt = getAdapterExtension(this.adapter);
+    this.modeApi = modalExt?.isActive ? this.adapter.readApi?.(modalExt.exports) : undefined;
+    if (!this.modeApi) {
+      this.logger.log(
+        `${this.adapter.displayName} exports no mode API - using ${this.detector.id} detection`
+      );
+      return;
+    }
 
-      // PASSTHROUGH: Spread config directly into VS Code API
-      // HARDCODED: isWholeLine always true (this is a LINE highlighter)
-      return vscode.window.createTextEditorDecorationType({
-        ...(config as vscode.DecorationRenderOptions), // ALL properties from config
-        isWholeLine: true, // ALWAYS true, NOT configurable
+    this.modeApiSubscription = this.modeApi.onDidChangeMode?.(() => {
+      this.logger.debug(`📡 ${this.adapter.displayName} API: mode changed`, {
+        mode: this.modeApi?.getMode(),
       });
-    };
+      if (this.enabled) {
+        this.decorateVisibleEditors();
+      }
+    });
+    this.logger.log(`📡 Using ${this.adapter.displayName} mode API`, {
+      events: !!this.modeApiSubscription,
+      mode: this.modeApi.getMode(),
+    });
+  }
 
-    return {
-      normal: createModeDecoration('normal'),
-      insert: createModeDecoration('insert'),
-      visual: createModeDecoration('visual'),
-      search: createModeDecoration('search'),
-    };
+  /**
+   * Drops the mode API connection (the extension went away or is reconnecting).
+   */
+  private disconnectModeApi(): void {
+    this.modeApiSubscription?.dispose();
+    this.modeApiSubscription = undefined;
+    this.modeApi = undefined;
   }
 
   /**
-   * Detects the current ModalEdit mode using cursor style and selection state.
+   * Reads `modeDetection.source`: whether modes announced through the setMode
+   * command are used, and whether the detector still covers the rest.
+   */
+  private readModeSource(): ModeSource {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const source = config.get<ModeSource>('modeDetection.source', 'heuristic');
+    this.logger.log(`Mode source: ${source}`);
+    return source;
+  }
+
+  /**
+   * Mode source in effect: standalone there is no modal extension to detect
+   * modes from, so announced modes are used (with detection as the fallback)
+   * even when `modeDetection.source` is heuristic
    *
-   * ModalEdit by default uses different cursor styles for different modes, though users
-   * can configure which styles to use. The key insight: we can detect VISUAL mode reliably
-   * by checking if there's an active selection, regardless of cursor styles.
+   * @returns `modeDetection.source`, or explicitWithFallback for heuristic in standalone mode
+   */
+  private getEffectiveModeSource(): ModeSource {
+    return this.modeSource === 'heuristic' && this.adapter.id === 'standalone'
+      ? 'explicitWithFallback'
+      : this.modeSource;
+  }
+
+  /**
+   * Reads `modeDetection.unknownFallback`: the mode shown when the detector
+   * can't tell the mode. Invalid values show the unknown mode.
+   */
+  private readUnknownFallback(): UnknownFallback {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const fallback = config.get<string>('modeDetection.unknownFallback', 'unknown');
+    if (fallback === 'insert' || fallback === 'normal') {
+      return fallback;
+    }
+    if (fallback !== 'unknown') {
+      this.logger.warn(`Unknown modeDetection.unknownFallback '${fallback}', using 'unknown'`);
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Creates the mode detector selected by `modeDetection.strategy`.
+   * Unknown strategies fall back to cursor style detection.
+   */
+  private createDetector(): ModeDetector {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const strategy = config.get<string>('modeDetection.strategy', 'cursorStyle');
+    const detector = createModeDetector(strategy, {
+      getCursorStyleMap: () => this.cursorStyleMap,
+      getAdapter: () => this.adapter,
+      getModeNames: () => this.modeNames,
+    });
+
+    if (detector.id !== strategy) {
+      this.logger.warn(`Unknown mode detection strategy '${strategy}', using '${detector.id}'`);
+    }
+    this.logger.log(`Mode detector: ${detector.id}`);
+    return detector;
+  }
+
+  /**
+   * Loads the cursor style → mode table (from our settings, the modal extension's
+   * cursor style settings, or the adapter's defaults).
+   * Problems (invalid rules, two modes mapped to the same cursor style) are logged
+   * and shown once as a warning until the table changes.
+   */
+  private loadCursorStyleMap(): void {
+    const { rules, problems, source } = this.configManager.getCursorStyleMap(this.adapter);
+    this.cursorStyleMap = rules;
+    this.cursorStyleMapSource = source;
+    this.logger.log('Cursor style map loaded', { source, rules: rules.length });
+
+    const origin =
+      source === 'extension'
+        ? `${this.adapter.displayName} cursor styles are ambiguous`
+        : 'modeDetection.cursorStyleMap';
+    this.reportProblems('cursorStyleMap', origin, problems);
+  }
+
+  /**
+   * Loads the mode registry (built-in modes plus the `modes` setting).
+   * Invalid registry entries are logged and shown once as a warning.
+   */
+  private loadModeRegistry(): void {
+    const { modes, problems } = this.configManager.getModeRegistry();
+    this.modeNames = this.configManager.getModeNames();
+    this.logger.log('Mode registry loaded', { registered: Object.keys(modes) });
+
+    this.reportProblems('modes', 'modes', problems);
+  }
+
+  /**
+   * Logs configuration problems and shows them as a warning.
+   * Each kind of problem is shown once until its problem list changes.
    *
-   * Mode detection strategy:
-   * 1. Check if editor has a selection (selection.anchor != selection.active)
-   * 2. If yes, and cursor is NOT the INSERT cursor → likely VISUAL mode
-   * 3. Otherwise, detect based on cursor style patterns
+   * @param kind - Problem category, used to suppress repeated warnings
+   * @param origin - Setting (or extension) the problems come from
+   * @param problems - Human-readable problem descriptions
+   */
+  private reportProblems(kind: string, origin: string, problems: string[]): void {
+    const problemsKey = problems.join('\n');
+    if (problems.length === 0 || problemsKey === this.lastReportedProblems.get(kind)) {
+      this.lastReportedProblems.set(kind, problemsKey);
+      return;
+    }
+    this.lastReportedProblems.set(kind, problemsKey);
+
+    problems.forEach(problem => this.logger.warn(`${origin}: ${problem}`));
+    vscode.window
+      .showWarningMessage(
+        `ModalEdit Line Indicator: ${origin} (${problems.length} problem(s)): ${problems[0]}`,
+        'Show Logs'
+      )
+      .then(choice => {
+        if (choice === 'Show Logs') {
+          this.logger.show();
+        }
+      });
+  }
+
+  /**
+   * Resolves the render options of all decorations: every mode (built-in and
+   * registered) with its own background, border color, border style, and border
+   * width, plus an inactive variant for visible editors without focus.
+   * The anchor line marker and a mode's column highlight are included only when
+   * enabled (`anchorLine.enabled`, `column.enabled`); the initializing style is
+   * always included.
    *
-   * This works because:
-   * - INSERT mode: Always uses thin cursor (Line/LineThin variants)
-   * - NORMAL mode: Uses block cursor variants, NO selection
-   * - VISUAL mode: Uses ANY cursor style, WITH selection
-   * - SEARCH mode: Uses distinctive cursor (typically Underline variants)
+   * @returns Render options per decoration key
+   */
+  private getDecorationOptions(): Map<string, vscode.DecorationRenderOptions> {
+    this.logger.log(`Resolving decorations for ${this.modeNames.length} modes`);
+
+    const options = new Map<string, vscode.DecorationRenderOptions>();
+    const renderTargets = new Map<string, RenderTarget>();
+    const addDecoration = (key: string, config: MergedModeConfig): void => {
+      const target = this.configManager.getRenderTarget(config);
+      options.set(key, this.toRenderOptions(config, target));
+      renderTargets.set(key, target);
+    };
+
+    for (const mode of this.modeNames) {
+      for (const variant of DECORATION_VARIANTS) {
+        const config = this.configManager.getConfig(mode, variant);
+        this.logger.log(`  ${mode.toUpperCase()} (${variant}): ${JSON.stringify(config)}`);
+        addDecoration(decorationKey(mode, variant), config);
+      }
+    }
+
+    // Column cells are single characters - the render target doesn't apply
+    const columnHighlights = new Map<Mode, ColumnHighlightConfig>();
+    for (const mode of this.modeNames) {
+      const column = this.configManager.getColumnConfig(mode);
+      if (column.enabled) {
+        this.logger.log(`  ${mode.toUpperCase()} (column): ${JSON.stringify(column)}`);
+        const { renderTarget: _renderTarget, ...style } = column.style;
+        options.set(columnKey(mode), {
+          ...(style as vscode.DecorationRenderOptions),
+          isWholeLine: false,
+        });
+        columnHighlights.set(mode, column);
+      }
+    }
+    this.columnHighlights = columnHighlights;
+
+    const initializingStyle = this.configManager.getInitializingStyle();
+    this.logger.log(`  INITIALIZING: ${JSON.stringify(initializingStyle)}`);
+    addDecoration(INITIALIZING_KEY, initializingStyle);
+
+    const anchorLine = this.configManager.getAnchorLineConfig();
+    if (anchorLine.enabled) {
+      this.logger.log(`  ANCHOR LINE: ${JSON.stringify(anchorLine.style)}`);
+      addDecoration(ANCHOR_LINE_KEY, anchorLine.style);
+    }
+
+    // Ranges are painted per render target (text ranges differ from line ranges)
+    this.renderTargets = renderTargets;
+    return options;
+  }
+
+  /**
+   * Translates a resolved style into VS Code render options for its render target.
+   * wholeLine and text pass the style through (PASSTHROUGH: all properties from
+   * config); gutter and overviewRuler show only a bar or mark in the style's color
+   * (the mark in the style's overviewRulerLane, Full by default).
    *
-   * @returns The current mode ('normal' | 'insert' | 'visual' | 'search')
+   * @param config - Resolved decoration configuration
+   * @param target - Where the decoration is drawn
+   * @returns Render options for createTextEditorDecorationType
    */
-  private detectCurrentMode(): Mode {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-      return 'insert';
+  private toRenderOptions(
+    config: MergedModeConfig,
+    target: RenderTarget
+  ): vscode.DecorationRenderOptions {
+    const { renderTarget: _renderTarget, ...style } = config;
+    const color = this.configManager.getIndicatorColor(config);
+
+    switch (target) {
+      case 'wholeLine':
+        return { ...(style as vscode.DecorationRenderOptions), isWholeLine: true };
+      case 'text':
+        return { ...(style as vscode.DecorationRenderOptions), isWholeLine: false };
+      case 'gutter':
+        return {
+          gutterIconPath: style.gutterIconPath ?? gutterBarIcon(color),
+          gutterIconSize: style.gutterIconSize ?? 'contain',
+          isWholeLine: true,
+        };
+      case 'overviewRuler':
+        return {
+          overviewRulerColor: color,
+          overviewRulerLane: toOverviewRulerLane(style.overviewRulerLane),
+          isWholeLine: true,
+        };
     }
+  }
 
-    const cursorStyle = editor.options.cursorStyle as number | undefined;
-    const hasSelection = !editor.selection.isEmpty;
+  /**
+   * Swaps in the decoration types for the current settings and theme.
+   * Decorations whose options didn't change keep their types (see DecorationPool);
+   * replaced types are cleared from the visible editors and only their keys are
+   * repainted.
+   */
+  private loadDecorations(): void {
+    const update = this.decorationPool.update(this.getDecorationOptions());
 
-    // Only log when state changes
-    const stateKey = `${cursorStyle}-${hasSelection}`;
-    if (stateKey !== this.lastLoggedStateKey) {
-      this.logger.debug(`Cursor: ${cursorStyle}, Selection: ${hasSelection}`);
-      this.lastLoggedStateKey = stateKey;
+    for (const editor of vscode.window.visibleTextEditors) {
+      for (const decoration of update.replaced.values()) {
+        editor.setDecorations(decoration, []);
+      }
     }
+    this.renderer.forget(update.replaced.keys());
+    this.decorations = update.types;
+
+    this.logger.log('Decorations loaded', {
+      created: update.created,
+      reused: update.reused,
+      unchanged: update.unchanged,
+      replaced: [...update.replaced.keys()],
+      pooled: this.decorationPool.getIdleCount(),
+    });
+  }
 
-    // Priority 1: If there's a selection and we're NOT in LINE cursor → VISUAL mode
-    // This handles all cursor configurations where VISUAL mode has a selection
-    if (hasSelection && cursorStyle !== vscode.TextEditorCursorStyle.Line) {
-      return 'visual';
+  /**
+   * Loads the range policy of every mode (which lines of a selection are decorated)
+   */
+  private loadRangePolicies(): void {
+    this.rangePolicies = new Map(
+      this.modeNames.map(mode => [mode, this.configManager.getRangePolicy(mode)])
+    );
+    this.logger.log('Range policies loaded', Object.fromEntries(this.rangePolicies));
+  }
+
+  /**
+   * Loads the enter/exit delays of every mode (mode change hysteresis)
+   */
+  private loadTransitionDelays(): void {
+    this.transitionDelays = new Map(
+      this.modeNames.map(mode => [mode, this.configManager.getTransitionDelays(mode)])
+    );
+    const delayed = [...this.transitionDelays].filter(([, { enter, exit }]) => enter || exit);
+    if (delayed.length > 0) {
+      this.logger.log('Mode transition delays loaded', Object.fromEntries(delayed));
     }
+  }
 
-    // Priority 2: Detect based on cursor style
-    switch (cursorStyle) {
-      case vscode.TextEditorCursorStyle.Block: // 2 - Typical NORMAL mode
-      case vscode.TextEditorCursorStyle.BlockOutline: // 5 - Alternative NORMAL/VISUAL
-        return hasSelection ? 'visual' : 'normal';
+  /**
+   * Detects the current mode of an editor.
+   *
+   * Detection is delegated to the ModeDetector selected by `modeDetection.strategy`
+   * (cursor style + selection state by default, see CursorStyleDetector).
+   *
+   * @param editor - Editor to detect the mode of (defaults to the active editor)
+   * @returns The current mode (built-in or registered)
+   */
+  private detectCurrentMode(
+    editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+  ): Mode {
+    return this.detect(editor).mode;
+  }
 
-      case vscode.TextEditorCursorStyle.Underline: // 3 - Typical SEARCH mode
-      case vscode.TextEditorCursorStyle.UnderlineThin: // 6 - Alternative SEARCH
-        return 'search';
+  /**
+   * Mode shown in an editor
+   *
+   * @param editor - Editor to look up
+   * @returns Last applied mode, or undefined until the editor is decorated
+   */
+  public getShownMode(editor: vscode.TextEditor): Mode | undefined {
+    return this.modeCache.get(editor);
+  }
+
+  /**
+   * Whether the modal extension is ready (see settleInitialMode)
+   *
+   * @returns false while the initializing style is shown
+   */
+  public isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Id of the modal extension adapter in use
+   *
+   * @returns Adapter id, e.g. 'modaledit' or 'standalone'
+   */
+  public getAdapterId(): string {
+    return this.adapter.id;
+  }
+
+  /**
+   * Last mode applied to an editor (INSERT until the editor is first decorated)
+   *
+   * @param editor - Editor to look up
+   * @returns Cached mode
+   */
+  private getCachedMode(editor: vscode.TextEditor): Mode {
+    return this.modeCache.get(editor) ?? 'insert';
+  }
+
+  /**
+   * Determines the mode of an editor from announced modes and/or the
+   * active detector, depending on `modeDetection.source`.
+   * An unknown mode is shown as `modeDetection.unknownFallback`.
+   * Logs the reasoning whenever the result changes.
+   *
+   * @param editor - Editor to detect the mode of (defaults to the active editor)
+   * @returns Detected mode with confidence and reason
+   */
+  private detect(
+    editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+  ): DetectionResult {
+    const detected = this.resolveDetection(editor);
+    const result: DetectionResult =
+      detected.mode === 'unknown' && this.unknownFallback !== 'unknown'
+        ? {
+            ...detected,
+            mode: this.unknownFallback,
+            reason: `${detected.reason} - shown as ${this.unknownFallback} (modeDetection.unknownFallback)`,
+          }
+        : detected;
+
+    // Only log when result changes
+    const detectionKey = `${result.mode}-${result.reason}`;
+    if (detectionKey !== this.lastLoggedDetectionKey) {
+      if (detected.mode === 'unknown') {
+        this.logger.log('❓ Mode unknown', {
+          reason: detected.reason,
+          shownAs: result.mode.toUpperCase(),
+          cursorStyle: getCursorStyleName(editor?.options.cursorStyle as number | undefined),
+        });
+      }
+      this.logger.debug(`Detected ${result.mode.toUpperCase()} (${result.confidence})`, {
+        detector: this.detector.id,
+        source: this.getEffectiveModeSource(),
+        reason: result.reason,
+      });
+      this.lastLoggedDetectionKey = detectionKey;
+    }
 
-      case vscode.TextEditorCursorStyle.LineThin: // 4 - Could be VISUAL or INSERT
-        return hasSelection ? 'visual' : 'insert';
+    return result;
+  }
 
-      case vscode.TextEditorCursorStyle.Line: // 1 - Typical INSERT mode
-      default:
-        return 'insert';
+  /**
+   * Applies `modeDetection.source` to an editor (see getEffectiveModeSource):
+   * - heuristic: detector result
+   * - explicit: announced mode, or UNKNOWN (low confidence) until one is announced
+   * - explicitWithFallback: announced mode, or the detector result
+   *
+   * @param editor - Editor to determine the mode for
+   * @returns Mode with confidence and reason
+   */
+  private resolveDetection(editor: vscode.TextEditor | undefined): DetectionResult {
+    const source = this.getEffectiveModeSource();
+    if (source !== 'heuristic') {
+      const announced = editor ? this.explicitModes.get(editor.document.uri.toString()) : undefined;
+      if (announced) {
+        return {
+          mode: announced,
+          confidence: 'high',
+          reason: `Mode '${announced}' announced via setMode`,
+        };
+      }
+      if (source === 'explicit') {
+        return {
+          mode: 'unknown',
+          confidence: 'low',
+          reason: 'No mode announced via setMode for this editor',
+        };
+      }
     }
+
+    return this.detectFromApi(editor) ?? this.detector.detect(editor);
   }
 
   /**
-   * Update the line highlight based on current mode
-   * Debounced to avoid excessive updates during rapid mode switches
+   * Reads the mode from the modal extension's API (see connectModeApi)
+   *
+   * @param editor - Editor to determine the mode for
+   * @returns Mode reported by the API, or undefined to fall back to the detector
    */
-  private async updateHighlight(): Promise<void> {
-    if (!this.enabled) {
+  private detectFromApi(editor: vscode.TextEditor | undefined): DetectionResult | undefined {
+    const reported = editor ? this.modeApi?.getMode() : undefined;
+    if (!editor || !reported) {
+      return undefined;
+    }
+
+    const nativeMode = this.adapter.refineMode?.(reported, editor) ?? reported;
+    const mode = toIndicatorMode(this.adapter, nativeMode, this.modeNames);
+    if (!mode) {
+      return undefined;
+    }
+    return {
+      mode,
+      nativeMode: nativeMode !== mode ? nativeMode : undefined,
+      confidence: 'high',
+      reason: `Mode '${reported}' reported by the ${this.adapter.displayName} API`,
+    };
+  }
+
+  /**
+   * Announces the mode of an editor (setMode command).
+   * Keybindings and ModalEdit command sequences call this to report mode switches
+   * directly instead of relying on cursor style detection.
+   *
+   * @param arg - Mode name, or { mode, uri }; asks for a mode when omitted
+   * @param uri - Document URI of the target editor (defaults to the active editor)
+   */
+  private async setMode(arg?: string | SetModeArgs, uri?: string | vscode.Uri): Promise<void> {
+    const args: SetModeArgs = typeof arg === 'object' && arg !== null ? arg : { mode: arg, uri };
+
+    let mode = args.mode;
+    if (mode === undefined) {
+      mode = await vscode.window.showQuickPick(this.modeNames, {
+        placeHolder: 'Mode to show for the active editor',
+      });
+      if (!mode) {
+        return;
+      }
+    }
+
+    if (typeof mode !== 'string' || !this.modeNames.includes(mode)) {
+      this.logger.warn(`setMode: unknown mode '${String(mode)}'`, { known: this.modeNames });
+      vscode.window.showWarningMessage(
+        `ModalEdit Line Indicator: Unknown mode '${String(mode)}'. ` +
+          `Known modes: ${this.modeNames.join(', ')}`
+      );
       return;
     }
 
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
+    // String URIs are normalized like document URIs (encoding, drive letter casing)
+    const targetUri =
+      typeof args.uri === 'string'
+        ? vscode.Uri.parse(args.uri).toString()
+        : (args.uri?.toString() ?? vscode.window.activeTextEditor?.document.uri.toString());
+    if (!targetUri) {
+      this.logger.debug('setMode: no editor to announce the mode for');
       return;
     }
 
-    // Debounce rapid successive calls
-    if (this.updateDebounceTimer) {
-      clearTimeout(this.updateDebounceTimer);
+    this.explicitModes.set(targetUri, mode);
+    const source = this.getEffectiveModeSource();
+    this.logger.debug('📣 Mode announced', {
+      mode: mode.toUpperCase(),
+      uri: targetUri,
+      source,
+    });
+    if (source === 'heuristic') {
+      this.logger.debug('modeDetection.source is heuristic - announced mode is not used');
+      return;
     }
 
-    this.updateDebounceTimer = setTimeout(async () => {
-      // Re-check active editor in case it changed during debounce
-      const currentEditor = vscode.window.activeTextEditor;
-      if (currentEditor) {
-        await this.applyDecorations(currentEditor);
+    // Apply right away to the visible editors of the document
+    if (this.enabled) {
+      for (const editor of vscode.window.visibleTextEditors) {
+        if (editor.document.uri.toString() === targetUri) {
+          this.renderer.schedule(editor);
+        }
       }
-    }, this.DEBOUNCE_MS);
+    }
+  }
+
+  /**
+   * Update the line highlight of the active editor based on its current mode.
+   * Rapid successive calls are coalesced by the renderer.
+   */
+  private updateHighlight(): void {
+    const editor = vscode.window.activeTextEditor;
+    if (this.enabled && editor) {
+      this.renderer.schedule(editor);
+    }
   }
 
   /**
-   * Applies decorations to an editor based on the current mode.
-   * Only one decoration type is applied at a time (exclusive).
+   * Applies decorations to an editor based on its own current mode.
+   * Only the current mode's decorations are applied: in the focused editor the
+   * lines chosen by the mode's range policy (plus the anchor line marker in visual
+   * mode), in other visible editors the inactive variant on all cursor lines.
+   * Until the modal extension is ready, all cursor lines show the initializing style.
+   * Called by the renderer for scheduled editors; painting skips decoration types
+   * whose ranges didn't change.
    *
    * @param editor - The text editor to apply decorations to
    */
   private applyDecorations(editor: vscode.TextEditor): void {
+    if (!this.ready) {
+      this.applyInitializingDecoration(editor);
+      return;
+    }
+
     try {
       const fileName = path.basename(editor.document.fileName);
       const cursorLine = editor.selection.active.line;
 
-      const currentMode = this.detectCurrentMode();
+      const currentMode = this.confirmMode(editor, this.detectCurrentMode(editor));
 
       // Only log when mode actually changes
-      const modeChanged = currentMode !== this.currentModeCache;
+      const previousMode = this.getCachedMode(editor);
+      const modeChanged = currentMode !== previousMode;
       if (modeChanged) {
         this.logger.log('🎨 MODE CHANGED', {
-          from: this.currentModeCache.toUpperCase(),
+          from: previousMode.toUpperCase(),
           to: currentMode.toUpperCase(),
           line: cursorLine,
           file: fileName,
         });
-        this.currentModeCache = currentMode;
+        if (editor === vscode.window.activeTextEditor && !this.isTypingFreeMode(currentMode)) {
+          this.mismatches.agree(); // Detection agrees with typing again
+        }
       }
+      this.modeCache.set(editor, currentMode);
 
       // Get the line(s) to decorate
-      const ranges = this.getDecorateRanges(editor);
-
-      // Clear all decorations first
-      editor.setDecorations(this.decorations.normal, []);
-      editor.setDecorations(this.decorations.insert, []);
-      editor.setDecorations(this.decorations.visual, []);
-      editor.setDecorations(this.decorations.search, []);
-
-      // Apply decoration for current mode only
-      switch (currentMode) {
-        case 'normal':
-          editor.setDecorations(this.decorations.normal, ranges);
-          break;
-        case 'insert':
-          editor.setDecorations(this.decorations.insert, ranges);
-          break;
-        case 'visual':
-          editor.setDecorations(this.decorations.visual, ranges);
-          break;
-        case 'search':
-          editor.setDecorations(this.decorations.search, ranges);
-          break;
+      if (this.multiCursor.enabled && editor.selections.length > this.multiCursor.maxCursors) {
+        this.logger.debug(
+          `${editor.selections.length} cursors - highlighting at most ` +
+            `${this.multiCursor.maxCursors} selections`
+        );
+      }
+      const variantRanges =
+        editor === vscode.window.activeTextEditor
+          ? getDecorateRanges(
+              editor,
+              this.rangePolicies.get(currentMode) ?? 'cursorLine',
+              this.multiCursor
+            )
+          : getInactiveRanges(editor, this.multiCursor);
+
+      // Apply decorations for current mode and focus state only, clear all others
+      const rangesByKey = new Map<string, vscode.Range[]>();
+      for (const [variant, ranges] of variantRanges) {
+        rangesByKey.set(decorationKey(currentMode, variant), ranges);
+      }
+      const isVisual = (this.configManager.getParentMode(currentMode) ?? currentMode) === 'visual';
+      if (isVisual && editor === vscode.window.activeTextEditor) {
+        rangesByKey.set(ANCHOR_LINE_KEY, getAnchorRanges(editor, this.multiCursor));
       }
+      const column = this.columnHighlights.get(currentMode);
+      if (column && editor === vscode.window.activeTextEditor) {
+        rangesByKey.set(columnKey(currentMode), getColumnRanges(editor, column.radius));
+      }
+      this.renderer.paint(editor, this.decorations, this.toTargetRanges(editor, rangesByKey));
+
+      // Only log when mode changed
+      if (modeChanged) {
+        const rangeCount = [...variantRanges.values()].reduce((sum, r) => sum + r.length, 0);
+        this.logger.debug(
+          `Applied ${currentMode.toUpperCase()} mode decoration to ${rangeCount} range(s)`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error updating line highlight', error);
+    }
+  }
+
+  /**
+   * Converts whole-line ranges to the ranges of each decoration's render target
+   * (the text extent of the lines for `text`; other targets decorate whole lines)
+   *
+   * @param editor - Editor the ranges belong to
+   * @param rangesByKey - Whole-line ranges per decoration key
+   * @returns Ranges per decoration key, ready to paint
+   */
+  private toTargetRanges(
+    editor: vscode.TextEditor,
+    rangesByKey: Map<string, vscode.Range[]>
+  ): Map<string, vscode.Range[]> {
+    const targetRanges = new Map<string, vscode.Range[]>();
+    for (const [key, ranges] of rangesByKey) {
+      targetRanges.set(
+        key,
+        this.renderTargets.get(key) === 'text' ? textRanges(editor.document, ranges) : ranges
+      );
+    }
+    return targetRanges;
+  }
+
+  /**
+   * Shows the initializing style on all cursor lines of an editor, clearing all others
+   *
+   * @param editor - The text editor to apply decorations to
+   */
+  private applyInitializingDecoration(editor: vscode.TextEditor): void {
+    try {
+      const cursorRanges = [
+        ...getDecorateRanges(editor, 'cursorLine', this.multiCursor).values(),
+      ].flat();
+      this.renderer.paint(
+        editor,
+        this.decorations,
+        this.toTargetRanges(editor, new Map([[INITIALIZING_KEY, cursorRanges]]))
+      );
+    } catch (error) {
+      this.logger.error('Error applying initializing decoration', error);
+    }
+  }
+
+  /**
+   * Waits until the modal extension is ready to tell the mode (bounded by
+   * READINESS_TIMEOUT_MS): immediately with a mode API that reports a mode, or
+   * once the active editor's cursor style matches the cursor style map and stays
+   * the same for READINESS_STABLE_SAMPLES samples.
+   *
+   * @returns Description of the readiness signal, for the log
+   */
+  private async waitForReadiness(): Promise<string> {
+    const startTime = Date.now();
+    let lastCursorStyle: number | undefined;
+    let stableSamples = 0;
+
+    while (!this.disposed && Date.now() - startTime < this.READINESS_TIMEOUT_MS) {
+      if (this.modeApi?.getMode()) {
+        return `${this.adapter.displayName} API reports a mode`;
+      }
+
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        return 'no active editor';
+      }
+
+      const cursorStyle = editor.options.cursorStyle as number | undefined;
+      const isMapped = this.detector.detect(editor).confidence === 'high';
+      stableSamples = isMapped && cursorStyle === lastCursorStyle ? stableSamples + 1 : 0;
+      lastCursorStyle = cursorStyle;
+      if (stableSamples + 1 >= this.READINESS_STABLE_SAMPLES) {
+        return `stable cursor style '${getCursorStyleName(cursorStyle)}'`;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.READINESS_INTERVAL_MS));
+    }
+    return 'timed out';
+  }
+
+  /**
+   * Applies the transition delays (hysteresis) to a detected mode change
+   * (see decideModeTransition), so intermediate states of command sequences
+   * don't flash. While a change is pending the shown mode stays, and a timer
+   * re-checks the editor when the delay is over.
+   *
+   * @param editor - Editor being decorated
+   * @param detected - Mode detected right now
+   * @returns Mode to show
+   */
+  private confirmMode(editor: vscode.TextEditor, detected: Mode): Mode {
+    const decision = decideModeTransition(
+      this.modeCache.get(editor),
+      detected,
+      this.pendingModes.get(editor),
+      this.transitionDelays
+    );
+    if (decision.action !== 'wait') {
+      this.cancelPendingMode(editor);
+    }
+    if (decision.action !== 'start') {
+      return decision.mode;
+    }
+
+    // New candidate mode - (re)start the delay
+    const change: PendingModeChange = {
+      mode: detected,
+      elapsed: false,
+      timer: setTimeout(() => {
+        change.elapsed = true;
+        if (this.enabled && vscode.window.visibleTextEditors.includes(editor)) {
+          this.renderer.schedule(editor);
+        } else {
+          this.pendingModes.delete(editor);
+        }
+      }, decision.delayMs),
+    };
+    this.pendingModes.set(editor, change);
+    this.logger.debug('⏳ Mode change pending', {
+      from: decision.mode.toUpperCase(),
+      to: detected.toUpperCase(),
+      delayMs: decision.delayMs,
+    });
+    return decision.mode;
+  }
+
+  /**
+   * Drops the pending mode change of an editor (or of all editors) and its timer
+   *
+   * @param editor - Editor to cancel the change for (all editors when omitted)
+   */
+  private cancelPendingMode(editor?: vscode.TextEditor): void {
+    const editors = editor ? [editor] : [...this.pendingModes.keys()];
+    for (const target of editors) {
+      const pending = this.pendingModes.get(target);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingModes.delete(target);
+      }
+    }
+  }
+
+  /**
+   * Cross-checks the shown mode against a document change.
+   * Typing in the active editor while a typing-free mode (normal, visual, search)
+   * is shown means the signals disagree: the mode is re-evaluated right away
+   * (skipping any transition delay), and if detection still disagrees a
+   * detection mismatch is reported.
+   *
+   * @param event - Document change event
+   */
+  private checkTypingAgainstMode(event: vscode.TextDocumentChangeEvent): void {
+    const editor = vscode.window.activeTextEditor;
+    if (!this.enabled || !editor || event.document !== editor.document || !isTypingEdit(event)) {
+      return;
+    }
+
+    const shown = this.modeCache.get(editor);
+    if (shown === undefined || !this.isTypingFreeMode(shown)) {
+      this.mismatches.agree();
+      return;
+    }
+
+    // Signals disagree - re-evaluate now instead of waiting for the next editor event
+    const pending = this.pendingModes.get(editor);
+    if (pending) {
+      pending.elapsed = true;
+    }
+    this.applyDecorations(editor);
+
+    const current = this.modeCache.get(editor) ?? shown;
+    if (this.isTypingFreeMode(current)) {
+      this.reportDetectionMismatch(editor, current);
+    } else {
+      this.logger.debug('Typing detected - mode re-evaluated', {
+        from: shown.toUpperCase(),
+        to: current.toUpperCase(),
+      });
+      this.mismatches.agree();
+    }
+  }
 
-      // Only log when mode changed
-      if (modeChanged) {
-        this.logger.debug(
-          `Applied ${currentMode.toUpperCase()} mode decoration to ${ranges.length} range(s)`
-        );
+  /**
+   * Repaints the editors of an edited document: the edit may have moved or
+   * stretched their decorations without changing the decorated line numbers
+   *
+   * @param document - Document that was edited
+   */
+  private redecorateEditedDocument(document: vscode.TextDocument): void {
+    this.renderer.invalidate(document);
+    if (!this.enabled) {
+      return;
+    }
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document === document) {
+        this.renderer.schedule(editor);
       }
-    } catch (error) {
-      this.logger.error('Error updating line highlight', error);
     }
   }
 
   /**
-   * Calculate which line ranges should be decorated
-   * Always highlights only the current cursor line
+   * Whether typing doesn't edit the document in a mode (see TYPING_FREE_MODES)
+   */
+  private isTypingFreeMode(mode: Mode): boolean {
+    return TYPING_FREE_MODES.includes(this.configManager.getParentMode(mode) ?? mode);
+  }
+
+  /**
+   * Logs a detection mismatch (typing while a typing-free mode is detected), once per
+   * mode / cursor style / selection state, and shows a one-time hint after a few
+   * typed characters unless `modeDetection.mismatchHint` is off.
+   *
+   * @param editor - Editor that was typed in
+   * @param mode - Mode detected despite the typing
    */
-  private getDecorateRanges(editor: vscode.TextEditor): vscode.Range[] {
-    // Only highlight the current cursor line
-    const cursorLine = editor.selection.active.line;
-    return [new vscode.Range(cursorLine, 0, cursorLine, 0)];
+  private reportDetectionMismatch(editor: vscode.TextEditor, mode: Mode): void {
+    const cursorStyle =
+      getCursorStyleName(editor.options.cursorStyle as number | undefined) ?? 'unknown';
+    const hasSelection = !editor.selection.isEmpty;
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const report = this.mismatches.disagree(
+      `${mode}-${cursorStyle}-${hasSelection}`,
+      config.get<boolean>('modeDetection.mismatchHint', true)
+    );
+
+    if (report.log) {
+      this.logger.warn('⚠️ Detection mismatch: typing while mode is ' + mode.toUpperCase(), {
+        cursorStyle,
+        hasSelection,
+        adapter: this.adapter.displayName,
+        cursorStyleMapSource: this.cursorStyleMapSource,
+      });
+    }
+    if (!report.hint) {
+      return;
+    }
+
+    vscode.window
+      .showInformationMessage(
+        `ModalEdit Line Indicator: Typing was detected while showing ${mode.toUpperCase()} mode ` +
+          `(cursor style '${cursorStyle}'). The cursor style mapping may be misconfigured.`,
+        'Show Logs',
+        'Open Settings'
+      )
+      .then(choice => {
+        if (choice === 'Show Logs') {
+          this.logger.show();
+        } else if (choice === 'Open Settings') {
+          vscode.commands.executeCommand(
+            'workbench.action.openSettings',
+            'modaledit-line-indicator.modeDetection'
+          );
+        }
+      });
   }
 
   /**
    * Clear all decorations from all visible editors
    */
   private clearAllDecorations(): void {
+    this.renderer.cancel();
     vscode.window.visibleTextEditors.forEach(editor => {
-      editor.setDecorations(this.decorations.normal, []);
-      editor.setDecorations(this.decorations.insert, []);
-      editor.setDecorations(this.decorations.visual, []);
-      editor.setDecorations(this.decorations.search, []);
+      this.renderer.paint(editor, this.decorations, new Map());
     });
+    this.cancelPendingMode();
+    this.modeCache = new WeakMap();
+  }
+
+  /**
+   * Decorate every visible editor with its own mode (split views, editor groups)
+   */
+  private decorateVisibleEditors(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.renderer.schedule(editor);
+    }
   }
 
   /**
    * Reloads decorations when configuration changes.
-   * Disposes old decoration types and creates new ones with updated settings.
+   * Only styles that changed get new decoration types (see loadDecorations);
+   * the others keep theirs, and replaced types go back to the pool.
    */
   private reloadDecorations(): void {
     this.logger.log('Reloading decorations (config changed)');
 
-    // Dispose old decorations
-    this.decorations.normal.dispose();
-    this.decorations.insert.dispose();
-    this.decorations.visual.dispose();
-    this.decorations.search.dispose();
-
-    // Create new decorations with updated config
-    this.decorations = this.createDecorations();
+    // Swap in decoration types for changed styles; unchanged ones are kept
+    this.loadDecorations();
+    this.loadRangePolicies();
+    this.loadTransitionDelays();
 
     // Reapply to all visible editors only if extension is enabled
     if (this.enabled) {
-      for (const editor of vscode.window.visibleTextEditors) {
-        this.applyDecorations(editor);
-      }
+      this.decorateVisibleEditors();
     }
   }
 
@@ -270,20 +1173,124 @@ class ModalEditLineIndicator implements vscode.Disposable {
   private registerListeners(): void {
     // Update on selection/cursor change
     this.disposables.push(
-      vscode.window.onDidChangeTextEditorSelection(async () => {
-        await this.updateHighlight();
+      vscode.window.onDidChangeTextEditorSelection(() => {
+        this.noteActivity();
+        this.updateHighlight();
+      })
+    );
+
+    // Update on active editor change - focus moved, so every visible editor
+    // switches between its active and inactive style
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        this.noteActivity();
+        if (this.enabled) {
+          this.decorateVisibleEditors();
+        }
+      })
+    );
+
+    // Decorate editors that become visible (e.g. opening a split) with their own mode
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(editors => {
+        this.noteActivity();
+        this.renderer.retain(editors);
+        if (!this.enabled) {
+          return;
+        }
+
+        for (const editor of editors) {
+          if (!this.modeCache.has(editor)) {
+            this.renderer.schedule(editor);
+          }
+        }
+      })
+    );
+
+    // Follow scrolling with the column highlight, which covers only the visible lines
+    this.disposables.push(
+      vscode.window.onDidChangeTextEditorVisibleRanges(e => {
+        if (
+          this.enabled &&
+          this.columnHighlights.size > 0 &&
+          e.textEditor === vscode.window.activeTextEditor
+        ) {
+          this.renderer.schedule(e.textEditor);
+        }
+      })
+    );
+
+    // Update on editor options change - ModalEdit switches modes by changing cursorStyle,
+    // which fires this event. Each editor is checked against its own cursor style,
+    // so split views stay independent.
+    this.disposables.push(
+      vscode.window.onDidChangeTextEditorOptions(e => {
+        this.noteActivity();
+        if (!this.enabled) {
+          return;
+        }
+
+        const previousMode = this.getCachedMode(e.textEditor);
+        const currentMode = this.detectCurrentMode(e.textEditor);
+        if (currentMode !== previousMode) {
+          this.logger.debug('🔄 Mode changed (options event)', {
+            from: previousMode.toUpperCase(),
+            to: currentMode.toUpperCase(),
+          });
+          this.renderer.schedule(e.textEditor);
+        }
+      })
+    );
+
+    // Cross-check the shown mode against typing in the active document.
+    // ModalEdit's command activity isn't observable from outside, so edits are the second signal.
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(e => {
+        this.noteActivity();
+        this.redecorateEditedDocument(e.document);
+        this.checkTypingAgainstMode(e);
       })
     );
 
-    // Update on active editor change
+    // Pause polling while the window is in the background; re-detect on return,
+    // the mode may have changed while the window wasn't watched
     this.disposables.push(
-      vscode.window.onDidChangeActiveTextEditor(async e => {
-        if (e) {
-          await this.updateHighlight();
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused === this.windowFocused) {
+          return;
+        }
+        this.windowFocused = state.focused;
+        if (state.focused) {
+          this.pollSchedule.noteActivity();
         }
+        this.scheduleModePoll();
+        if (this.pollingActive) {
+          this.logger.log(
+            state.focused ? 'Mode polling resumed' : 'Mode polling paused (unfocused)'
+          );
+        }
+
+        if (state.focused && this.enabled) {
+          this.decorateVisibleEditors();
+        }
+      })
+    );
+
+    // Forget announced modes of closed documents
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.explicitModes.delete(document.uri.toString());
       })
     );
 
+    // Announce the mode explicitly (keybindings, ModalEdit command sequences)
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        'modaledit-line-indicator.setMode',
+        (arg?: string | SetModeArgs, uri?: string | vscode.Uri) => this.setMode(arg, uri)
+      )
+    );
+
     // Manual update command
     this.disposables.push(
       vscode.commands.registerCommand('modaledit-line-indicator.updateHighlight', () =>
@@ -305,7 +1312,7 @@ class ModalEditLineIndicator implements vscode.Disposable {
 
         if (this.enabled) {
           this.startModePolling();
-          await this.updateHighlight();
+          this.decorateVisibleEditors();
           vscode.window.showInformationMessage('ModalEdit Line Indicator: Enabled');
         } else {
           // Clear all decorations and stop polling
@@ -316,15 +1323,47 @@ class ModalEditLineIndicator implements vscode.Disposable {
       })
     );
 
+    // Modal extension installed, uninstalled, enabled or disabled without a reload
+    this.disposables.push(
+      vscode.extensions.onDidChange(() => {
+        this.extensionsChange = this.extensionsChange
+          .then(() => this.handleExtensionsChanged())
+          .catch(error => this.logger.error('Failed to handle extension changes', error));
+      })
+    );
+
     // Listen for configuration changes
     this.disposables.push(
       vscode.workspace.onDidChangeConfiguration(e => {
         const affectsUs = e.affectsConfiguration('modaledit-line-indicator');
+        const affectsModalExtension =
+          !!this.adapter.configSection && e.affectsConfiguration(this.adapter.configSection);
         this.logger.debug('⚙️  EVENT: onDidChangeConfiguration', {
           affectsUs,
+          affectsModalExtension,
         });
 
-        if (e.affectsConfiguration('modaledit-line-indicator.enabled')) {
+        if (affectsModalExtension) {
+          // Modal extension cursor styles may have changed - re-derive the detection table
+          this.logger.log(
+            `${this.adapter.displayName} configuration changed - reloading cursor style map`
+          );
+          this.loadCursorStyleMap();
+          if (this.enabled) {
+            this.decorateVisibleEditors();
+          }
+        }
+
+        if (!affectsUs) {
+          return;
+        }
+        const affects = (section: string): boolean =>
+          e.affectsConfiguration(`modaledit-line-indicator.${section}`);
+
+        // One settings write can touch several sections (e.g. modes together with
+        // modeDetection.cursorStyleMap), so each section is checked on its own
+
+        if (affects('enabled')) {
           // Enabled state changed
           const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
           const newEnabled = config.get<boolean>('enabled', true);
@@ -337,15 +1376,44 @@ class ModalEditLineIndicator implements vscode.Disposable {
             this.clearAllDecorations();
             this.stopModePolling();
           } else {
-            // When enabling, start polling and apply decorations
+            // When enabling, start polling (decorations are applied below)
+            this.startModePolling();
+          }
+        }
+
+        if (affects('modes')) {
+          // Mode registry changed - modes, their decorations and detection rules
+          this.logger.log('Mode registry changed - reloading modes');
+          this.loadModeRegistry();
+          this.loadCursorStyleMap();
+        }
+
+        if (affects('modeDetection')) {
+          // Detection settings changed - reload the mapping and restart polling
+          this.logger.log('Mode detection settings changed - restarting mode detection');
+          this.adapter = this.selectAdapter();
+          this.modalExtensionPresent = !!getAdapterExtension(this.adapter);
+          this.loadCursorStyleMap();
+          this.detector = this.createDetector();
+          this.connectModeApi();
+          this.modeSource = this.readModeSource();
+          this.unknownFallback = this.readUnknownFallback();
+          this.stopModePolling();
+          if (this.enabled) {
             this.startModePolling();
-            this.updateHighlight();
           }
-        } else if (affectsUs) {
-          // Visual properties changed - need to reload decorations
-          this.logger.log('Configuration changed - reloading decorations');
-          this.reloadDecorations();
         }
+
+        if (affects('multiCursor')) {
+          // Multi-cursor settings changed - only the decorated ranges change
+          this.logger.log('Multi-cursor settings changed');
+          this.multiCursor = this.configManager.getMultiCursorConfig();
+        }
+
+        // Styles may have changed as well; unchanged ones keep their decoration
+        // types, and all visible editors are redecorated (when enabled)
+        this.logger.log('Configuration changed - reloading decorations');
+        this.reloadDecorations();
       })
     );
 
@@ -390,20 +1458,27 @@ class ModalEditLineIndicator implements vscode.Disposable {
         this.logger.log('=== MANUAL MODE QUERY TRIGGERED ===');
 
         const editor = vscode.window.activeTextEditor;
-        const currentMode = this.detectCurrentMode();
-        const modeColorMap = {
+        const detection = this.detect();
+        const currentMode = detection.mode;
+        const modeColorMap: Record<string, string> = {
           normal: 'green dotted',
           insert: 'red solid',
           visual: 'blue dashed',
+          visualLine: 'visual line, blue dashed',
+          visualBlock: 'visual block, blue dashed',
           search: 'yellow solid',
+          plain: 'grey thin solid - standalone, no modal extension',
+          unknown: 'grey dashed - mode could not be detected',
         };
-        const modeDescription = modeColorMap[currentMode];
+        const modeDescription = modeColorMap[currentMode] ?? 'registered mode';
 
-        // ModalEdit detection
-        const modalEditExt = vscode.extensions.getExtension('johtela.vscode-modaledit');
-        const modalEditInfo = modalEditExt
-          ? `ModalEdit v${modalEditExt.packageJSON.version} (active: ${modalEditExt.isActive})`
-          : 'ModalEdit NOT installed';
+        // Modal extension detection
+        const modalExt = getAdapterExtension(this.adapter);
+        const modalExtInfo = modalExt
+          ? `${this.adapter.displayName} v${modalExt.packageJSON.version} (active: ${modalExt.isActive})`
+          : this.adapter.extensionId
+            ? `${this.adapter.displayName} NOT installed`
+            : 'None (standalone)';
 
         // Theme detection
         const themeKind = this.configManager.getCurrentThemeKind();
@@ -417,39 +1492,65 @@ class ModalEditLineIndicator implements vscode.Disposable {
 
         // Cursor and selection state
         const cursorStyle = editor?.options.cursorStyle as number | undefined;
-        const cursorStyleMap: Record<number, string> = {
-          1: 'Line',
-          2: 'Block',
-          3: 'Underline',
-          4: 'LineThin',
-          5: 'BlockOutline',
-          6: 'UnderlineThin',
-        };
-        const cursorStyleName = cursorStyle
-          ? cursorStyleMap[cursorStyle] || `Unknown (${cursorStyle})`
-          : 'Unknown';
+        const cursorStyleName =
+          cursorStyle !== undefined
+            ? getCursorStyleName(cursorStyle) || `Unknown (${cursorStyle})`
+            : 'Unknown';
         const hasSelection = editor ? !editor.selection.isEmpty : false;
+        const cursorStyleMapSourceMap = {
+          settings: 'from settings',
+          extension: `derived from ${this.adapter.displayName}`,
+          default: 'built-in default',
+        };
+
+        // Polling state: configured and effective interval
+        const effectiveInterval = this.getEffectivePollingInterval();
+        const pollingInfo = !this.pollingActive
+          ? 'Off (event-driven)'
+          : effectiveInterval === undefined
+            ? `every ${this.pollSchedule.intervals.interval}ms (effective: paused - window unfocused)`
+            : `every ${this.pollSchedule.intervals.interval}ms (effective: ${effectiveInterval}ms${this.pollSchedule.isIdle ? ' - idle' : ''})`;
 
         // Build detailed message
+        const nativeModeInfo = detection.nativeMode
+          ? ` - ${this.adapter.displayName} ${detection.nativeMode}`
+          : '';
         const parts = [
-          `MODE: ${currentMode.toUpperCase()} (${modeDescription})`,
+          `MODE: ${currentMode.toUpperCase()} (${modeDescription})${nativeModeInfo}`,
           `Cursor: ${cursorStyleName}`,
+          `Detector: ${this.detector.id} (${detection.confidence} confidence)`,
+          `Mode signal: ${this.modeApi ? `${this.adapter.displayName} API` : 'cursor style heuristic'}`,
+          `Mode source: ${this.getEffectiveModeSource()}`,
+          `Reason: ${detection.reason}`,
+          `Cursor style map: ${cursorStyleMapSourceMap[this.cursorStyleMapSource]}`,
+          `Polling: ${pollingInfo}`,
           `Selection: ${hasSelection ? 'Yes' : 'No'}`,
           `Theme: ${themeDescription}`,
           `Extension: ${this.enabled ? 'Enabled' : 'Disabled'}`,
-          modalEditInfo,
+          modalExtInfo,
         ];
 
         const message = parts.join('\n');
 
         this.logger.log('Manual query result', {
           mode: currentMode,
+          detector: this.detector.id,
+          modeApi: !!this.modeApi,
+          modeSource: this.getEffectiveModeSource(),
+          confidence: detection.confidence,
+          reason: detection.reason,
           cursorStyle: cursorStyleName,
+          cursorStyleMapSource: this.cursorStyleMapSource,
+          pollingInterval: this.pollingActive ? this.pollSchedule.intervals.interval : undefined,
+          effectivePollingInterval: effectiveInterval,
+          renderStats: this.renderer.getStats(),
           hasSelection,
           theme: themeKind,
           enabled: this.enabled,
-          modalEditPresent: !!modalEditExt,
-          modalEditActive: modalEditExt?.isActive,
+          nativeMode: detection.nativeMode,
+          adapter: this.adapter.id,
+          modalExtensionPresent: !!modalExt,
+          modalExtensionActive: modalExt?.isActive,
         });
 
         vscode.window.showInformationMessage(message, { modal: true });
@@ -476,36 +1577,50 @@ class ModalEditLineIndicator implements vscode.Disposable {
   }
 
   /**
-   * Start polling mode to detect mode changes via cursor style
-   * This is needed because VS Code doesn't fire events when cursor style changes
+   * Start polling mode as a fallback to detect mode changes via cursor style.
+   *
+   * Mode changes are normally detected from editor events (options, selection and
+   * active editor changes), so polling is opt-in via `modeDetection.polling`.
+   * It only helps when another extension changes the cursor style without VS Code
+   * firing onDidChangeTextEditorOptions.
+   *
+   * Polling adapts to the user: it pauses while the window is unfocused and backs
+   * off to `modeDetection.idlePollingInterval` after `modeDetection.idleTimeout`
+   * without editor activity (see noteActivity).
    */
   private startModePolling(): void {
     // Don't start if already running
-    if (this.modePollTimer) {
+    if (this.pollingActive) {
       this.logger.debug('Mode polling already running, skipping start');
       return;
     }
 
-    this.logger.log('Starting mode polling (every 50ms)...');
-
-    this.modePollTimer = setInterval(() => {
-      const editor = vscode.window.activeTextEditor;
-      if (!editor) {
-        return;
-      }
+    // Nothing to poll until the modal extension is installed (see handleExtensionsChanged)
+    if (!getAdapterExtension(this.adapter)) {
+      this.logger.log('Mode polling not started - no modal extension installed');
+      return;
+    }
 
-      const currentMode = this.detectCurrentMode();
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    if (!config.get<boolean>('modeDetection.polling', false)) {
+      this.logger.log('Mode polling disabled - using event-driven mode detection');
+      return;
+    }
 
-      // Only update if mode actually changed
-      if (currentMode !== this.currentModeCache) {
-        this.logger.debug('🔄 Mode changed (poll)', {
-          from: this.currentModeCache.toUpperCase(),
-          to: currentMode.toUpperCase(),
-        });
+    const intervals = resolvePollingIntervals(
+      config.get<number>('modeDetection.pollingInterval', 50),
+      config.get<number>('modeDetection.idlePollingInterval', 1000),
+      config.get<number>('modeDetection.idleTimeout', 30000)
+    );
+    this.logger.log(`Starting mode polling (every ${intervals.interval}ms)...`, {
+      idlePollingInterval: intervals.idleInterval,
+      idleTimeout: intervals.idleTimeout,
+      windowFocused: this.windowFocused,
+    });
 
-        this.updateHighlight();
-      }
-    }, this.MODE_POLL_MS);
+    this.pollingActive = true;
+    this.pollSchedule = new PollingSchedule(intervals);
+    this.scheduleModePoll();
 
     this.logger.log('✅ Mode polling started');
   }
@@ -517,77 +1632,106 @@ class ModalEditLineIndicator implements vscode.Disposable {
     if (this.modePollTimer) {
       clearInterval(this.modePollTimer);
       this.modePollTimer = null;
+    }
+    if (this.pollingActive) {
+      this.pollingActive = false;
       this.logger.log('Mode polling stopped');
     }
   }
 
   /**
-   * Initialize the extension
+   * Interval polling currently runs at
+   *
+   * @returns Interval in ms, or undefined when polling is off or paused (window unfocused)
    */
-  public async activate(): Promise<void> {
-    try {
-      this.logger.log('=== ACTIVATION START ===');
+  public getEffectivePollingInterval(): number | undefined {
+    if (!this.pollingActive || !this.windowFocused) {
+      return undefined;
+    }
+    return this.pollSchedule.getInterval();
+  }
+
+  /**
+   * (Re)starts the poll timer at the effective interval, or leaves it stopped
+   * when polling is off or paused
+   */
+  private scheduleModePoll(): void {
+    if (this.modePollTimer) {
+      clearInterval(this.modePollTimer);
+      this.modePollTimer = null;
+    }
 
-      // Check for ModalEdit extension
-      const modalEditExt = vscode.extensions.getExtension('johtela.vscode-modaledit');
+    const intervalMs = this.getEffectivePollingInterval();
+    if (intervalMs !== undefined) {
+      this.modePollTimer = setInterval(() => this.pollModes(), intervalMs);
+    }
+  }
 
-      if (modalEditExt) {
-        this.logger.log('ModalEdit extension FOUND', {
-          id: modalEditExt.id,
-          version: modalEditExt.packageJSON.version,
-          isActive: modalEditExt.isActive,
-        });
+  /**
+   * One poll: redecorate editors whose mode changed, then back off when the
+   * user has been inactive for idleTimeout
+   */
+  private pollModes(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const previousMode = this.getCachedMode(editor);
+      const currentMode = this.detectCurrentMode(editor);
 
-        if (!modalEditExt.isActive) {
-          this.logger.log('Activating ModalEdit...');
-          try {
-            await modalEditExt.activate();
-            this.logger.log('ModalEdit activated successfully');
-          } catch (error) {
-            this.logger.error('Failed to activate ModalEdit', error);
-            vscode.window
-              .showWarningMessage(
-                'ModalEdit Line Indicator: Could not activate ModalEdit extension. ' +
-                  'Mode detection may not work correctly.',
-                'Show Logs'
-              )
-              .then(choice => {
-                if (choice === 'Show Logs') {
-                  this.logger.show();
-                }
-              });
-          }
-        }
+      // Only update if mode actually changed
+      if (currentMode !== previousMode) {
+        this.logger.debug('🔄 Mode changed (poll)', {
+          from: previousMode.toUpperCase(),
+          to: currentMode.toUpperCase(),
+        });
 
-        // Wait for ModalEdit to set its context
-        this.logger.log('Waiting for ModalEdit to initialize context...');
-        await new Promise(resolve => setTimeout(resolve, 200));
-        this.logger.log('Wait complete, proceeding with mode detection...');
-      } else {
-        this.logger.log('⚠️  ModalEdit extension NOT FOUND - will default to insert mode');
+        this.renderer.schedule(editor);
       }
+    }
 
-      // Test initial mode detection
-      this.logger.log('Testing initial mode detection...');
-      const initialMode = this.detectCurrentMode();
-      this.logger.log('Initial mode result', {
-        mode: initialMode,
-      });
+    if (this.pollSchedule.checkIdle()) {
+      this.logger.log(
+        `Mode polling idle - backing off to every ${this.pollSchedule.intervals.idleInterval}ms`
+      );
+      this.scheduleModePoll();
+    }
+  }
+
+  /**
+   * Records editor activity; idle polling snaps back to the normal interval
+   */
+  private noteActivity(): void {
+    if (this.pollSchedule.noteActivity()) {
+      this.logger.debug(
+        `Mode polling active again - every ${this.pollSchedule.intervals.interval}ms`
+      );
+      this.scheduleModePoll();
+    }
+  }
+
+  /**
+   * Initialize the extension
+   */
+  public async activate(): Promise<void> {
+    try {
+      this.logger.log('=== ACTIVATION START ===');
+
+      const modalExt = await this.activateModalExtension();
 
       this.registerListeners();
 
-      // Apply initial decorations
+      // Apply initial decorations: the initializing style until the extension is ready
       this.logger.log('Applying initial decorations', {
         visibleEditors: vscode.window.visibleTextEditors.length,
       });
-
-      for (const editor of vscode.window.visibleTextEditors) {
-        this.applyDecorations(editor);
+      if (this.enabled) {
+        this.decorateVisibleEditors();
       }
 
-      // Start polling mode for instant mode change detection
+      // Start fallback polling (no-op unless enabled in settings)
       this.startModePolling();
 
+      // Wait for the modal extension to set its initial mode, then show it
+      await this.settleInitialMode(modalExt, this.readinessGeneration);
+
       this.logger.log('=== ACTIVATION COMPLETE ===');
     } catch (error) {
       this.logger.error('FATAL: Activation failed', error);
@@ -595,38 +1739,160 @@ class ModalEditLineIndicator implements vscode.Disposable {
     }
   }
 
+  /**
+   * Activates the adapter's modal extension if it is installed but not yet
+   * active, then connects to its mode API.
+   * @returns The modal extension, or undefined when it is not installed or disabled
+   */
+  private async activateModalExtension(): Promise<vscode.Extension<unknown> | undefined> {
+    const modalExt = getAdapterExtension(this.adapter);
+    const modalName = this.adapter.displayName;
+    this.modalExtensionPresent = !!modalExt;
+
+    if (modalExt) {
+      this.logger.log(`${modalName} extension FOUND`, {
+        id: modalExt.id,
+        version: modalExt.packageJSON.version,
+        isActive: modalExt.isActive,
+      });
+
+      if (!modalExt.isActive) {
+        this.logger.log(`Activating ${modalName}...`);
+        try {
+          await modalExt.activate();
+          this.logger.log(`${modalName} activated successfully`);
+        } catch (error) {
+          this.logger.error(`Failed to activate ${modalName}`, error);
+          vscode.window
+            .showWarningMessage(
+              `ModalEdit Line Indicator: Could not activate ${modalName} extension. ` +
+                'Mode detection may not work correctly.',
+              'Show Logs'
+            )
+            .then(choice => {
+              if (choice === 'Show Logs') {
+                this.logger.show();
+              }
+            });
+        }
+      }
+
+      // Ask the extension for its mode (cursor style detection if it has no API)
+      this.connectModeApi();
+    } else if (this.adapter.extensionId) {
+      this.logger.log(`⚠️  ${modalName} extension NOT FOUND - mode will be unknown`);
+      this.disconnectModeApi();
+    } else {
+      this.logger.log('No modal extension installed - running standalone');
+      this.disconnectModeApi();
+    }
+
+    return modalExt;
+  }
+
+  /**
+   * Handles extensions being installed, uninstalled, enabled or disabled at
+   * runtime. When the adapter (with `auto`) or the presence of its extension
+   * changes, mode detection restarts: the extension is activated again, the
+   * initializing style is shown until it is ready, and polling only runs while
+   * it is installed. onDidChangeModalExtension fires only when the extension
+   * was installed, uninstalled, enabled or disabled, not for an adapter switch
+   * alone.
+   */
+  private async handleExtensionsChanged(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('modaledit-line-indicator');
+    const adapter = selectAdapter(config.get<string>('modeDetection.adapter', 'auto'));
+    const present = !!getAdapterExtension(adapter);
+    if (this.disposed || (adapter === this.adapter && present === this.modalExtensionPresent)) {
+      return;
+    }
+
+    this.logger.log(`🧩 Modal extensions changed - restarting mode detection`, {
+      adapter: adapter.displayName,
+      installed: present,
+    });
+    this.stopModePolling();
+    this.cancelPendingMode();
+    this.adapter = this.selectAdapter();
+    this.loadCursorStyleMap();
+    this.detector = this.createDetector();
+
+    // Back to the initializing style right away; a readiness wait still running
+    // from before the change must not mark the indicator ready
+    const generation = ++this.readinessGeneration;
+    this.ready = false;
+    if (this.enabled) {
+      this.decorateVisibleEditors();
+    }
+
+    const wasPresent = this.modalExtensionPresent;
+    const modalExt = await this.activateModalExtension();
+    if (this.disposed || generation !== this.readinessGeneration) {
+      return;
+    }
+    if (this.modalExtensionPresent !== wasPresent) {
+      this.modalExtensionChanged.fire(this.modalExtensionPresent);
+    }
+
+    if (this.enabled) {
+      this.startModePolling();
+    }
+    await this.settleInitialMode(modalExt, generation);
+  }
+
+  /**
+   * Waits for the modal extension to set its initial mode (the initializing
+   * style stays up meanwhile), then marks the indicator ready and decorates.
+   * @param modalExt - The modal extension, or undefined when none is installed
+   * @param generation - readinessGeneration when the wait started; a restart since makes it stale
+   */
+  private async settleInitialMode(
+    modalExt: vscode.Extension<unknown> | undefined,
+    generation: number
+  ): Promise<void> {
+    const modalName = this.adapter.displayName;
+    if (modalExt) {
+      this.logger.log(`Waiting for ${modalName} to be ready...`);
+      const readyStart = Date.now();
+      const signal = await this.waitForReadiness();
+      this.logger.log(`${modalName} ready after ${Date.now() - readyStart}ms (${signal})`);
+    }
+    if (this.disposed || generation !== this.readinessGeneration) {
+      return;
+    }
+    this.ready = true;
+
+    const initialMode = this.detectCurrentMode();
+    this.logger.log('Initial mode result', {
+      mode: initialMode,
+    });
+    if (this.enabled) {
+      this.decorateVisibleEditors();
+    }
+  }
+
   /**
    * Dispose method required by vscode.Disposable interface
    * Clean up resources when extension is deactivated
    */
   public dispose(): void {
     this.logger.log('=== DEACTIVATION START ===');
+    this.disposed = true;
 
     // Stop mode polling
     this.stopModePolling();
 
-    // Clear pending debounce timer
-    if (this.updateDebounceTimer) {
-      clearTimeout(this.updateDebounceTimer);
-      this.updateDebounceTimer = null;
-    }
-
-    // Clear all decorations
-    vscode.window.visibleTextEditors.forEach(editor => {
-      editor.setDecorations(this.decorations.normal, []);
-      editor.setDecorations(this.decorations.insert, []);
-      editor.setDecorations(this.decorations.visual, []);
-      editor.setDecorations(this.decorations.search, []);
-    });
+    // Clear all decorations (drops scheduled renders)
+    this.clearAllDecorations();
+    this.renderer.dispose();
 
     // Dispose all listeners
     this.disposables.forEach(d => d.dispose());
+    this.disconnectModeApi();
+    this.modalExtensionChanged.dispose();
 
-    // Dispose decoration types
-    this.decorations.normal.dispose();
-    this.decorations.insert.dispose();
-    this.decorations.visual.dispose();
-    this.decorations.search.dispose();
+    // Dispose decoration types (active and pooled)
+    this.decorationPool.dispose();
 
     this.logger.log('=== DEACTIVATION COMPLETE ===');
     this.logger.dispose();
@@ -635,76 +1901,101 @@ class ModalEditLineIndicator implements vscode.Disposable {
 
 let indicator: ModalEditLineIndicator;
 
+/**
+ * Shows the missing-extension warning or the first-run welcome, depending on
+ * whether a supported modal extension is installed. Runs after activation and
+ * again whenever the modal extension is installed or removed.
+ * @param context - Extension context holding the notification state
+ */
+function showSetupNotifications(context: vscode.ExtensionContext): void {
+  // Check if ModalEdit (or another supported modal extension) is installed
+  const modalExtensionInstalled = MODAL_EXTENSION_ADAPTERS.some(
+    adapter => !!getAdapterExtension(adapter)
+  );
+  const hasSeenWarning = context.globalState.get('hasSeenModalEditWarning', false);
+
+  // Show warning if no modal extension installed and user hasn't dismissed
+  if (!modalExtensionInstalled && !hasSeenWarning) {
+    vscode.window
+      .showWarningMessage(
+        'ModalEdit Line Indicator works best with the ModalEdit extension. ' +
+          'Without ModalEdit, only the cursor line and selections are highlighted.',
+        'Install ModalEdit',
+        'Learn More',
+        'Dismiss'
+      )
+      .then(choice => {
+        if (choice === 'Install ModalEdit') {
+          // Open extension search for ModalEdit
+          vscode.commands.executeCommand(
+            'workbench.extensions.search',
+            '@id:johtela.vscode-modaledit'
+          );
+        } else if (choice === 'Learn More') {
+          // Open Prerequisites documentation
+          vscode.env.openExternal(
+            vscode.Uri.parse(
+              'https://github.com/GoodDingo/modaledit-line-indicator/blob/main/README.md#prerequisites'
+            )
+          );
+        } else if (choice === 'Dismiss') {
+          // Store dismissal in globalState
+          context.globalState.update('hasSeenModalEditWarning', true);
+        }
+      });
+  }
+
+  // First-run welcome notification (only if a modal extension IS installed)
+  const isFirstRun = !context.globalState.get('hasRun', false);
+  if (isFirstRun && modalExtensionInstalled) {
+    vscode.window
+      .showInformationMessage(
+        'ModalEdit Line Indicator active! Switch modes (Esc/i/v) to see line highlighting.',
+        'Show Guide',
+        'Got It'
+      )
+      .then(choice => {
+        if (choice === 'Show Guide') {
+          vscode.env.openExternal(
+            vscode.Uri.parse(
+              'https://github.com/GoodDingo/modaledit-line-indicator/blob/main/README.md#quick-start'
+            )
+          );
+        }
+      });
+    context.globalState.update('hasRun', true);
+  }
+}
+
 /**
  * Extension activation entry point
  * Called when VS Code loads the extension
+ * @returns State accessors, available to others as the extension's exports
  */
-export function activate(context: vscode.ExtensionContext): void {
+export function activate(context: vscode.ExtensionContext): LineIndicatorApi {
   indicator = new ModalEditLineIndicator();
   context.subscriptions.push(indicator);
 
   indicator
     .activate()
     .then(() => {
-      // Check if ModalEdit is installed
-      const modalEditInstalled = !!vscode.extensions.getExtension('johtela.vscode-modaledit');
-      const hasSeenWarning = context.globalState.get('hasSeenModalEditWarning', false);
-
-      // Show warning if ModalEdit not installed and user hasn't dismissed
-      if (!modalEditInstalled && !hasSeenWarning) {
-        vscode.window
-          .showWarningMessage(
-            'ModalEdit Line Indicator requires the ModalEdit extension for full functionality. ' +
-              'Without ModalEdit, only insert mode styling will be displayed.',
-            'Install ModalEdit',
-            'Learn More',
-            'Dismiss'
-          )
-          .then(choice => {
-            if (choice === 'Install ModalEdit') {
-              // Open extension search for ModalEdit
-              vscode.commands.executeCommand(
-                'workbench.extensions.search',
-                '@id:johtela.vscode-modaledit'
-              );
-            } else if (choice === 'Learn More') {
-              // Open Prerequisites documentation
-              vscode.env.openExternal(
-                vscode.Uri.parse(
-                  'https://github.com/GoodDingo/modaledit-line-indicator/blob/main/README.md#prerequisites'
-                )
-              );
-            } else if (choice === 'Dismiss') {
-              // Store dismissal in globalState
-              context.globalState.update('hasSeenModalEditWarning', true);
-            }
-          });
-      }
+      showSetupNotifications(context);
 
-      // First-run welcome notification (only if ModalEdit IS installed)
-      const isFirstRun = !context.globalState.get('hasRun', false);
-      if (isFirstRun && modalEditInstalled) {
-        vscode.window
-          .showInformationMessage(
-            'ModalEdit Line Indicator active! Switch modes (Esc/i/v) to see line highlighting.',
-            'Show Guide',
-            'Got It'
-          )
-          .then(choice => {
-            if (choice === 'Show Guide') {
-              vscode.env.openExternal(
-                vscode.Uri.parse(
-                  'https://github.com/GoodDingo/modaledit-line-indicator/blob/main/README.md#quick-start'
-                )
-              );
-            }
-          });
-        context.globalState.update('hasRun', true);
-      }
+      // Installing or removing the modal extension mid-session updates the notifications
+      context.subscriptions.push(
+        indicator.onDidChangeModalExtension(() => showSetupNotifications(context))
+      );
     })
     .catch(error => {
       console.error('Error activating ModalEdit Line Indicator:', error);
     });
+
+  return {
+    getShownMode: editor => indicator.getShownMode(editor),
+    isReady: () => indicator.isReady(),
+    getEffectivePollingInterval: () => indicator.getEffectivePollingInterval(),
+    getAdapterId: () => indicator.getAdapterId(),
+  };
 }
 
 /**
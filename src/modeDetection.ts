@@ -0,0 +1,520 @@
+import * as vscode from 'vscode';
+import { ModalExtensionAdapter, toIndicatorMode } from './adapters';
+import { BuiltInMode, Mode } from './configuration';
+
+/**
+ * Cursor style names, spelled the same way as in ModalEdit settings
+ * (e.g. "modaledit.normal.cursorStyle": "block")
+ */
+export type CursorStyleName =
+  | 'line'
+  | 'block'
+  | 'underline'
+  | 'line-thin'
+  | 'block-outline'
+  | 'underline-thin';
+
+/**
+ * Maps vscode.TextEditorCursorStyle values to their setting names
+ */
+export const CURSOR_STYLE_NAMES: Record<number, CursorStyleName> = {
+  [vscode.TextEditorCursorStyle.Line]: 'line',
+  [vscode.TextEditorCursorStyle.Block]: 'block',
+  [vscode.TextEditorCursorStyle.Underline]: 'underline',
+  [vscode.TextEditorCursorStyle.LineThin]: 'line-thin',
+  [vscode.TextEditorCursorStyle.BlockOutline]: 'block-outline',
+  [vscode.TextEditorCursorStyle.UnderlineThin]: 'underline-thin',
+};
+
+/**
+ * Built-in indicator modes (modes from the `modes` registry come on top)
+ */
+export const INDICATOR_MODES: BuiltInMode[] = [
+  'normal',
+  'insert',
+  'visual',
+  'visualLine',
+  'visualBlock',
+  'search',
+  'plain',
+  'unknown',
+];
+
+/**
+ * One row of the cursor style → mode table
+ *
+ * Rules are evaluated in order and the first match wins.
+ * `selection` is optional: when omitted the rule matches with or without a selection.
+ * `mode` is a mode of the active modal extension adapter (e.g. Vim's 'replace'),
+ * which the adapter maps onto an indicator mode.
+ */
+export interface CursorStyleRule {
+  cursorStyle: CursorStyleName;
+  selection?: boolean;
+  mode: string;
+}
+
+/**
+ * Default cursor style → mode table
+ *
+ * Matches ModalEdit's typical cursor styles:
+ * - line: INSERT (a selection made while typing stays INSERT)
+ * - block / block-outline: NORMAL, VISUAL with a selection
+ * - underline / underline-thin: SEARCH, VISUAL with a selection
+ * - line-thin: INSERT, VISUAL with a selection
+ */
+export const DEFAULT_CURSOR_STYLE_MAP: CursorStyleRule[] = [
+  { cursorStyle: 'line', mode: 'insert' },
+  { cursorStyle: 'block', selection: false, mode: 'normal' },
+  { cursorStyle: 'block', selection: true, mode: 'visual' },
+  { cursorStyle: 'block-outline', selection: false, mode: 'normal' },
+  { cursorStyle: 'block-outline', selection: true, mode: 'visual' },
+  { cursorStyle: 'underline', selection: false, mode: 'search' },
+  { cursorStyle: 'underline', selection: true, mode: 'visual' },
+  { cursorStyle: 'underline-thin', selection: false, mode: 'search' },
+  { cursorStyle: 'underline-thin', selection: true, mode: 'visual' },
+  { cursorStyle: 'line-thin', selection: false, mode: 'insert' },
+  { cursorStyle: 'line-thin', selection: true, mode: 'visual' },
+];
+
+/**
+ * Result of validating a cursor style table
+ */
+export interface CursorStyleMapValidation {
+  rules: CursorStyleRule[]; // Usable rules (invalid entries removed)
+  problems: string[]; // Human-readable descriptions of invalid or conflicting entries
+}
+
+/**
+ * Where the active cursor style table came from
+ * - settings: modeDetection.cursorStyleMap set explicitly by the user
+ * - extension: derived from the modal extension's cursor style settings
+ *   (e.g. ModalEdit's modaledit.<mode>.cursorStyle)
+ * - default: the adapter's default table
+ */
+export type CursorStyleMapSource = 'settings' | 'extension' | 'default';
+
+/**
+ * Cursor style table together with its origin
+ */
+export interface CursorStyleMapResult extends CursorStyleMapValidation {
+  source: CursorStyleMapSource;
+}
+
+/**
+ * Cursor styles configured in a modal extension, keyed by the extension's mode names
+ */
+export type ModeCursorStyles = Record<string, CursorStyleName>;
+
+/**
+ * Shape of the editor's selections, used to tell visual sub-modes apart
+ * - none: no selection
+ * - character: regular character-wise selection
+ * - line: every selection covers whole lines
+ * - block: one same-width selection per line on consecutive lines (column selection)
+ */
+export type SelectionShape = 'none' | 'character' | 'line' | 'block';
+
+/**
+ * Convert a vscode.TextEditorCursorStyle value to its setting name
+ *
+ * @param cursorStyle - Cursor style from editor.options (may be undefined)
+ * @returns Setting name, or undefined for missing/unrecognised styles
+ */
+export function getCursorStyleName(cursorStyle: number | undefined): CursorStyleName | undefined {
+  return cursorStyle !== undefined ? CURSOR_STYLE_NAMES[cursorStyle] : undefined;
+}
+
+/**
+ * Find the mode for a cursor style and selection state
+ *
+ * @param rules - Cursor style table (first match wins)
+ * @param cursorStyle - Current cursor style name
+ * @param hasSelection - Whether the editor has a non-empty selection
+ * @returns Matching mode, or undefined when no rule matches
+ */
+export function resolveModeFromCursorStyle(
+  rules: CursorStyleRule[],
+  cursorStyle: CursorStyleName | undefined,
+  hasSelection: boolean
+): string | undefined {
+  if (!cursorStyle) {
+    return undefined;
+  }
+
+  const rule = rules.find(
+    r =>
+      r.cursorStyle === cursorStyle && (r.selection === undefined || r.selection === hasSelection)
+  );
+  return rule?.mode;
+}
+
+/**
+ * Classify the shape of the editor's selections
+ *
+ * @param editor - Editor to inspect
+ * @returns Selection shape (see SelectionShape)
+ */
+export function classifySelections(editor: vscode.TextEditor): SelectionShape {
+  const selections = editor.selections.filter(selection => !selection.isEmpty);
+  if (selections.length === 0) {
+    return 'none';
+  }
+
+  // Column selection: several single-line selections on consecutive lines, same start
+  // column and same width (selections on shorter lines may end early, at end of line)
+  if (selections.length > 1) {
+    const sorted = [...selections].sort((a, b) => a.start.line - b.start.line);
+    const endColumn = Math.max(...sorted.map(selection => selection.end.character));
+    const isBlock = sorted.every(
+      (selection, index) =>
+        selection.isSingleLine &&
+        selection.start.character === sorted[0].start.character &&
+        selection.start.line === sorted[0].start.line + index &&
+        (selection.end.character === endColumn ||
+          selection.end.character === editor.document.lineAt(selection.end.line).text.length)
+    );
+    if (isBlock) {
+      return 'block';
+    }
+  }
+
+  // Line selection: starts at column 0 and ends at the start or the end of a later line.
+  // A selection within one line stays character-wise, even when it covers the whole line
+  // (e.g. a one-word line selected from column 0 to its end)
+  const isLineWise = selections.every(selection => {
+    if (selection.start.character !== 0 || selection.end.line === selection.start.line) {
+      return false;
+    }
+    return (
+      selection.end.character === 0 ||
+      selection.end.character >= editor.document.lineAt(selection.end.line).text.length
+    );
+  });
+
+  return isLineWise ? 'line' : 'character';
+}
+
+/**
+ * Describe the selection condition of a rule for log and warning messages
+ */
+function describeSelection(selection: boolean | undefined): string {
+  if (selection === undefined) {
+    return 'with or without selection';
+  }
+  return selection ? 'with selection' : 'without selection';
+}
+
+/**
+ * Validate a cursor style table read from settings
+ *
+ * Invalid entries (unknown cursor style or mode, non-boolean selection) are dropped.
+ * Conflicts - the same cursor style and selection state mapped to two different
+ * modes - are reported; the first rule keeps winning at detection time.
+ *
+ * @param rawRules - Value of the cursorStyleMap setting
+ * @param validModes - Mode names rules may use (indicator modes plus adapter modes)
+ * @returns Usable rules and a list of problems (empty if the table is valid)
+ */
+export function validateCursorStyleMap(
+  rawRules: unknown,
+  validModes: string[] = [...INDICATOR_MODES]
+): CursorStyleMapValidation {
+  if (!Array.isArray(rawRules)) {
+    return {
+      rules: DEFAULT_CURSOR_STYLE_MAP,
+      problems: ['cursorStyleMap must be an array of rules - using the default table'],
+    };
+  }
+
+  const validStyles = Object.values(CURSOR_STYLE_NAMES);
+  const rules: CursorStyleRule[] = [];
+  const problems: string[] = [];
+
+  rawRules.forEach((raw, index) => {
+    const entry = (raw ?? {}) as Partial<CursorStyleRule>;
+
+    if (!validStyles.includes(entry.cursorStyle as CursorStyleName)) {
+      problems.push(`Rule ${index + 1}: unknown cursor style '${String(entry.cursorStyle)}'`);
+      return;
+    }
+    if (typeof entry.mode !== 'string' || !validModes.includes(entry.mode)) {
+      problems.push(`Rule ${index + 1}: unknown mode '${String(entry.mode)}'`);
+      return;
+    }
+    if (entry.selection !== undefined && typeof entry.selection !== 'boolean') {
+      problems.push(`Rule ${index + 1}: 'selection' must be true or false`);
+      return;
+    }
+
+    rules.push({
+      cursorStyle: entry.cursorStyle as CursorStyleName,
+      selection: entry.selection,
+      mode: entry.mode as string,
+    });
+  });
+
+  // Detect conflicts: overlapping conditions for the same style that disagree on the mode
+  for (let i = 0; i < rules.length; i++) {
+    for (let j = i + 1; j < rules.length; j++) {
+      const first = rules[i];
+      const second = rules[j];
+      const overlaps =
+        first.selection === undefined ||
+        second.selection === undefined ||
+        first.selection === second.selection;
+
+      if (first.cursorStyle === second.cursorStyle && overlaps && first.mode !== second.mode) {
+        problems.push(
+          `Cursor style '${first.cursorStyle}' ${describeSelection(first.selection ?? second.selection)} maps to both ` +
+            `${first.mode.toUpperCase()} and ${second.mode.toUpperCase()} - ` +
+            `${first.mode.toUpperCase()} wins`
+        );
+      }
+    }
+  }
+
+  return { rules, problems };
+}
+
+/**
+ * Put rules in front of a cursor style table
+ *
+ * Rules of the table that the new rules fully shadow (same cursor style, same or
+ * any selection state) are removed, so overriding a style is not reported as a conflict.
+ *
+ * @param overrides - Rules that take precedence (e.g. registered mode detection rules)
+ * @param rules - Existing table
+ * @returns Combined table
+ */
+export function prependCursorStyleRules(
+  overrides: CursorStyleRule[],
+  rules: CursorStyleRule[]
+): CursorStyleRule[] {
+  if (overrides.length === 0) {
+    return rules;
+  }
+
+  const remaining = rules.filter(
+    rule =>
+      !overrides.some(
+        override =>
+          override.cursorStyle === rule.cursorStyle &&
+          (override.selection === undefined || override.selection === rule.selection)
+      )
+  );
+  return [...overrides, ...remaining];
+}
+
+/**
+ * Options for building a cursor style table from a modal extension's settings
+ */
+export interface CursorStyleMapBuildOptions {
+  extensionName: string; // Used in ambiguity messages
+  selectionModes: string[]; // Modes only active with a selection (e.g. visual), in priority order
+  defaultRules: CursorStyleRule[]; // Rules kept for cursor styles no mode uses
+}
+
+/**
+ * Build a cursor style table from the cursor style a modal extension uses for each mode
+ *
+ * Rules are ordered so that selection state can still separate modes that share
+ * a cursor style:
+ * 1. Selection mode styles (e.g. VISUAL) with a selection → that mode
+ * 2. NORMAL style with a selection → first selection mode
+ * 3. All other mode styles → that mode
+ *
+ * Cursor styles no mode uses keep their default rules.
+ * Modes sharing a cursor style are reported as ambiguous, unless selection state
+ * tells them apart (at most one of them is not a selection mode).
+ *
+ * @param styles - Cursor style per mode from the extension's settings
+ * @param options - Selection modes, default rules and extension name
+ * @returns Derived rules and a list of ambiguities
+ */
+export function buildCursorStyleMap(
+  styles: ModeCursorStyles,
+  options: CursorStyleMapBuildOptions
+): CursorStyleMapValidation {
+  const rules: CursorStyleRule[] = [];
+
+  for (const mode of options.selectionModes) {
+    if (styles[mode]) {
+      rules.push({ cursorStyle: styles[mode], selection: true, mode });
+    }
+  }
+  if (styles.normal && options.selectionModes.length > 0) {
+    rules.push({ cursorStyle: styles.normal, selection: true, mode: options.selectionModes[0] });
+  }
+  for (const [mode, style] of Object.entries(styles)) {
+    if (!options.selectionModes.includes(mode)) {
+      rules.push({ cursorStyle: style, mode });
+    }
+  }
+
+  // Report cursor styles shared by modes that selection state cannot separate
+  const modesByStyle = new Map<CursorStyleName, string[]>();
+  for (const [mode, style] of Object.entries(styles)) {
+    modesByStyle.set(style, [...(modesByStyle.get(style) ?? []), mode]);
+  }
+
+  const problems: string[] = [];
+  for (const [style, modes] of modesByStyle) {
+    const withoutSelection = modes.filter(mode => !options.selectionModes.includes(mode));
+    if (withoutSelection.length > 1) {
+      problems.push(
+        `${options.extensionName} uses cursor style '${style}' for ` +
+          `${modes.map(m => m.toUpperCase()).join(' and ')} modes - they cannot be told apart`
+      );
+    }
+  }
+
+  // Keep default rules for cursor styles the extension does not use
+  const usedStyles = new Set(rules.map(rule => rule.cursorStyle));
+  const fallbackRules = options.defaultRules.filter(rule => !usedStyles.has(rule.cursorStyle));
+
+  return { rules: [...rules, ...fallbackRules], problems };
+}
+
+/**
+ * How sure a detector is about the mode it reported
+ * - high: direct evidence (e.g. a cursorStyleMap rule matched)
+ * - medium: indirect evidence
+ * - low: fallback guess (no editor, unrecognised cursor style)
+ */
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Result of a single mode detection
+ */
+export interface DetectionResult {
+  mode: Mode;
+  nativeMode?: string; // Mode name used by the modal extension, when different from `mode`
+  confidence: DetectionConfidence;
+  reason: string; // Human-readable explanation, shown in logs and queryMode output
+}
+
+/**
+ * Strategy interface for mode detection
+ *
+ * Implementations must be side-effect free in detect() - it is called on every
+ * selection, options and editor change (and on each poll when polling is enabled).
+ */
+export interface ModeDetector {
+  readonly id: ModeDetectionStrategy;
+  detect(editor: vscode.TextEditor | undefined): DetectionResult;
+}
+
+/**
+ * Available detection strategies (value of the modeDetection.strategy setting)
+ * - cursorStyle: cursor style + selection state, via the cursor style map
+ */
+export type ModeDetectionStrategy = 'cursorStyle';
+
+/**
+ * Where the displayed mode comes from (value of the modeDetection.source setting)
+ * - heuristic: the mode detector only
+ * - explicit: only modes announced through the setMode command
+ * - explicitWithFallback: announced modes win, the detector covers editors without one
+ */
+export type ModeSource = 'heuristic' | 'explicit' | 'explicitWithFallback';
+
+/**
+ * Mode shown when the detector can't tell the mode (value of modeDetection.unknownFallback)
+ * - unknown: the unknown mode's own decoration
+ * - insert / normal: pretend the editor is in that mode
+ */
+export type UnknownFallback = 'unknown' | 'insert' | 'normal';
+
+/**
+ * Shared state detectors can read; supplied by the indicator
+ */
+export interface ModeDetectorContext {
+  getCursorStyleMap(): CursorStyleRule[];
+  getAdapter(): ModalExtensionAdapter;
+  getModeNames(): Mode[]; // Built-in and registered modes
+}
+
+/**
+ * Detects the mode from the editor's cursor style and selection state
+ *
+ * The cursor style table yields a mode of the active modal extension adapter,
+ * which the adapter may refine (e.g. Vim visual → visualLine). Registered modes are
+ * used as-is; other modes are mapped onto a built-in mode by the adapter. Table
+ * and adapter are read through the context on every call, so reloads (settings
+ * or modal extension configuration changes) apply immediately.
+ */
+export class CursorStyleDetector implements ModeDetector {
+  public readonly id = 'cursorStyle';
+
+  constructor(private readonly context: ModeDetectorContext) {}
+
+  public detect(editor: vscode.TextEditor | undefined): DetectionResult {
+    if (!editor) {
+      return { mode: 'unknown', confidence: 'low', reason: 'No active editor' };
+    }
+
+    const cursorStyle = editor.options.cursorStyle as number | undefined;
+    const cursorStyleName = getCursorStyleName(cursorStyle);
+    const hasSelection = !editor.selection.isEmpty;
+    const selectionText = hasSelection ? 'with selection' : 'without selection';
+
+    const adapter = this.context.getAdapter();
+    const matchedMode = resolveModeFromCursorStyle(
+      this.context.getCursorStyleMap(),
+      cursorStyleName,
+      hasSelection
+    );
+    const nativeMode =
+      matchedMode && adapter.refineMode ? adapter.refineMode(matchedMode, editor) : matchedMode;
+    const mappedMode = nativeMode
+      ? toIndicatorMode(adapter, nativeMode, this.context.getModeNames())
+      : undefined;
+
+    if (nativeMode && mappedMode) {
+      return {
+        mode: mappedMode,
+        nativeMode: nativeMode !== mappedMode ? nativeMode : undefined,
+        confidence: 'high',
+        reason:
+          `Cursor style '${cursorStyleName}' ${selectionText} matched ` +
+          `${adapter.displayName} mode '${nativeMode}'`,
+      };
+    }
+
+    // No rule for this cursor style (or no cursor style at all)
+    return {
+      mode: 'unknown',
+      confidence: 'low',
+      reason:
+        cursorStyle === undefined
+          ? 'Editor reports no cursor style'
+          : `No cursor style map rule for cursor style '${cursorStyleName ?? cursorStyle}' ${selectionText}`,
+    };
+  }
+}
+
+/**
+ * Factories for all detection strategies.
+ * Register new detectors here; the indicator only talks to the ModeDetector interface.
+ */
+const MODE_DETECTOR_FACTORIES: Record<
+  ModeDetectionStrategy,
+  (context: ModeDetectorContext) => ModeDetector
+> = {
+  cursorStyle: context => new CursorStyleDetector(context),
+};
+
+/**
+ * Create the detector for a strategy name from settings
+ *
+ * @param strategy - Value of modeDetection.strategy
+ * @param context - Shared detection state
+ * @returns Detector for the strategy, or the cursor style detector for unknown names
+ */
+export function createModeDetector(strategy: string, context: ModeDetectorContext): ModeDetector {
+  const factory =
+    MODE_DETECTOR_FACTORIES[strategy as ModeDetectionStrategy] ??
+    MODE_DETECTOR_FACTORIES.cursorStyle;
+  return factory(context);
+}
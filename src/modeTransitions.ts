@@ -0,0 +1,69 @@
+import { Mode, ModeTransitionDelays } from './configuration';
+
+/**
+ * Mode change waiting for its transition delay to pass
+ */
+export interface PendingTransition {
+  mode: Mode; // Newly detected mode, not shown yet
+  elapsed: boolean; // Delay is over: show the mode if it is still detected
+}
+
+/**
+ * What to do with a detected mode (see decideModeTransition)
+ * - show: show the detected mode now and drop any pending change
+ * - wait: keep showing the current mode, the pending change keeps waiting
+ * - start: keep showing the current mode and (re)start the delay for the detected one
+ */
+export type TransitionDecision =
+  | { action: 'show'; mode: Mode }
+  | { action: 'wait'; mode: Mode }
+  | { action: 'start'; mode: Mode; delayMs: number };
+
+/**
+ * Delay of a mode change: the larger of the old mode's exit delay and the new
+ * mode's enter delay
+ *
+ * @param from - Mode shown
+ * @param to - Mode detected
+ * @param delays - Enter/exit delays per mode (missing modes have none)
+ * @returns Delay in ms
+ */
+export function getTransitionDelay(
+  from: Mode,
+  to: Mode,
+  delays: ReadonlyMap<Mode, ModeTransitionDelays>
+): number {
+  return Math.max(delays.get(from)?.exit ?? 0, delays.get(to)?.enter ?? 0);
+}
+
+/**
+ * Applies the transition delays (hysteresis) to a detected mode.
+ * A change from the shown mode A to B is shown only after B has been detected
+ * for getTransitionDelay(A, B) ms without interruption; detecting another mode
+ * meanwhile restarts the delay for that mode, and detecting A again cancels it.
+ *
+ * @param shown - Mode shown in the editor, undefined before its first decoration
+ * @param detected - Mode detected right now
+ * @param pending - Pending change of the editor, if any
+ * @param delays - Enter/exit delays per mode
+ * @returns Mode to show, and what to do with the pending change
+ */
+export function decideModeTransition(
+  shown: Mode | undefined,
+  detected: Mode,
+  pending: PendingTransition | undefined,
+  delays: ReadonlyMap<Mode, ModeTransitionDelays>
+): TransitionDecision {
+  if (shown === undefined || detected === shown) {
+    return { action: 'show', mode: detected };
+  }
+  const delayMs = getTransitionDelay(shown, detected, delays);
+  if (delayMs === 0) {
+    return { action: 'show', mode: detected };
+  }
+
+  if (pending?.mode === detected) {
+    return pending.elapsed ? { action: 'show', mode: detected } : { action: 'wait', mode: shown };
+  }
+  return { action: 'start', mode: shown, delayMs };
+}
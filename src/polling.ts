@@ -0,0 +1,94 @@
+/**
+ * Poll intervals from the modeDetection settings
+ */
+export interface PollingIntervals {
+  interval: number; // modeDetection.pollingInterval
+  idleInterval: number; // modeDetection.idlePollingInterval
+  idleTimeout: number; // modeDetection.idleTimeout
+}
+
+/**
+ * Clamps the polling settings: the interval to at least 10ms, the idle interval
+ * to at least the interval, and the idle timeout to at least a second
+ *
+ * @param interval - modeDetection.pollingInterval
+ * @param idleInterval - modeDetection.idlePollingInterval
+ * @param idleTimeout - modeDetection.idleTimeout
+ * @returns Intervals to poll at
+ */
+export function resolvePollingIntervals(
+  interval: number,
+  idleInterval: number,
+  idleTimeout: number
+): PollingIntervals {
+  const active = Math.max(interval, 10);
+  return {
+    interval: active,
+    idleInterval: Math.max(idleInterval, active),
+    idleTimeout: Math.max(idleTimeout, 1000),
+  };
+}
+
+/**
+ * Adaptive poll rate: the normal interval while the user is active, the idle
+ * interval once there was no activity for idleTimeout
+ *
+ * The schedule only decides the interval; the caller owns the timer and
+ * restarts it when checkIdle or noteActivity report a change.
+ */
+export class PollingSchedule {
+  private idle = false;
+  private lastActivity: number;
+
+  /**
+   * @param intervals - Intervals to poll at (see resolvePollingIntervals)
+   * @param now - Clock in ms
+   */
+  constructor(
+    public readonly intervals: PollingIntervals,
+    private readonly now: () => number = Date.now
+  ) {
+    this.lastActivity = now();
+  }
+
+  /**
+   * Backed off to the idle interval
+   */
+  public get isIdle(): boolean {
+    return this.idle;
+  }
+
+  /**
+   * Interval to poll at right now
+   */
+  public getInterval(): number {
+    return this.idle ? this.intervals.idleInterval : this.intervals.interval;
+  }
+
+  /**
+   * Backs off when there was no activity for idleTimeout
+   *
+   * @returns Whether polling just became idle (the interval changed)
+   */
+  public checkIdle(): boolean {
+    if (this.idle || this.now() - this.lastActivity < this.intervals.idleTimeout) {
+      return false;
+    }
+    this.idle = true;
+    return true;
+  }
+
+  /**
+   * Records user activity; idle polling snaps back to the normal interval
+   *
+   * @returns Whether polling was idle (the interval changed)
+   */
+  public noteActivity(): boolean {
+    this.lastActivity = this.now();
+    if (!this.idle) {
+      return false;
+    }
+    this.idle = false;
+    return true;
+  }
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { DecorationVariant, MultiCursorConfig, RangePolicy } from './configuration';
+
+/**
+ * Line ranges to decorate in an editor, per decoration variant
+ */
+export type VariantRanges = Map<DecorationVariant, vscode.Range[]>;
+
+/**
+ * Whole-line range covering lines first..last
+ */
+export function lineRange(first: number, last: number = first): vscode.Range {
+  return new vscode.Range(first, 0, last, 0);
+}
+
+/**
+ * Selections that get highlighted: all of them up to `multiCursor.maxCursors`,
+ * or just the primary one when `multiCursor.enabled` is off
+ *
+ * @param editor - Editor to decorate
+ * @param multiCursor - Multi-cursor settings
+ * @returns Selections to highlight, primary first
+ */
+export function getHighlightedSelections(
+  editor: vscode.TextEditor,
+  multiCursor: MultiCursorConfig
+): readonly vscode.Selection[] {
+  return multiCursor.enabled
+    ? editor.selections.slice(0, multiCursor.maxCursors)
+    : [editor.selection];
+}
+
+/**
+ * Calculate which line ranges should be decorated, per variant
+ *
+ * The primary selection uses the active variant, other selections (with
+ * `multiCursor.enabled`) the secondaryCursor variant - at most
+ * `multiCursor.maxCursors` selections in total. Per range policy:
+ * - cursorLine: the cursor line of each selection
+ * - selectionLines: every line of each selection
+ * - selectionBounds: like selectionLines for single-line selections; multi-line
+ *   selections are framed by the firstLine, middleLines and lastLine variants
+ *
+ * A selection ending at the start of a line does not include that line.
+ *
+ * @param editor - Editor to decorate
+ * @param policy - Range policy of the editor's mode
+ * @param multiCursor - Multi-cursor settings
+ * @returns Line ranges per decoration variant
+ */
+export function getDecorateRanges(
+  editor: vscode.TextEditor,
+  policy: RangePolicy,
+  multiCursor: MultiCursorConfig
+): VariantRanges {
+  const ranges: VariantRanges = new Map();
+  const add = (variant: DecorationVariant, range: vscode.Range): void => {
+    const variantRanges = ranges.get(variant) ?? [];
+    variantRanges.push(range);
+    ranges.set(variant, variantRanges);
+  };
+
+  // Cursor lines already decorated (several cursors on one line get one range)
+  const cursorLines = new Set<number>();
+
+  getHighlightedSelections(editor, multiCursor).forEach((selection, index) => {
+    const cursorVariant: DecorationVariant = index === 0 ? 'active' : 'secondaryCursor';
+    const firstLine = selection.start.line;
+    const lastLine =
+      selection.end.character === 0 && selection.end.line > firstLine
+        ? selection.end.line - 1
+        : selection.end.line;
+
+    if (policy === 'cursorLine' || selection.isEmpty) {
+      if (!cursorLines.has(selection.active.line)) {
+        cursorLines.add(selection.active.line);
+        add(cursorVariant, lineRange(selection.active.line));
+      }
+    } else if (policy === 'selectionLines' || firstLine === lastLine) {
+      add(cursorVariant, lineRange(firstLine, lastLine));
+    } else {
+      add('firstLine', lineRange(firstLine));
+      if (lastLine - firstLine > 1) {
+        add('middleLines', lineRange(firstLine + 1, lastLine - 1));
+      }
+      add('lastLine', lineRange(lastLine));
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * Calculate the anchor lines of an editor: where each (non-empty) selection
+ * started, at most `multiCursor.maxCursors` of them
+ *
+ * @param editor - Focused editor in visual mode
+ * @param multiCursor - Multi-cursor settings
+ * @returns One line range per distinct anchor line
+ */
+export function getAnchorRanges(
+  editor: vscode.TextEditor,
+  multiCursor: MultiCursorConfig
+): vscode.Range[] {
+  const anchorLines = new Set(
+    getHighlightedSelections(editor, multiCursor)
+      .filter(selection => !selection.isEmpty)
+      .map(selection => selection.anchor.line)
+  );
+  return [...anchorLines].map(line => lineRange(line));
+}
+
+/**
+ * Calculate the ranges of an editor without focus: all cursor lines, in the
+ * inactive variant
+ *
+ * @param editor - Visible editor without focus
+ * @param multiCursor - Multi-cursor settings
+ * @returns Line ranges per decoration variant
+ */
+export function getInactiveRanges(
+  editor: vscode.TextEditor,
+  multiCursor: MultiCursorConfig
+): VariantRanges {
+  const cursorRanges = [...getDecorateRanges(editor, 'cursorLine', multiCursor).values()].flat();
+  return new Map([['inactive', cursorRanges]]);
+}
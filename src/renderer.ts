@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { Logger } from './configuration';
+
+/**
+ * Decoration type per mode and variant, keyed by decorationKey(),
+ * plus the anchor line marker and the initializing style under their own keys
+ */
+export type DecorationTypes = Map<string, vscode.TextEditorDecorationType>;
+
+/**
+ * setDecorations calls performed and skipped (ranges unchanged) since activation
+ */
+export interface RenderStats {
+  performed: number;
+  skipped: number;
+}
+
+/**
+ * Fingerprint of painted ranges that edits may have moved: never equal to a
+ * range list's fingerprint, so the next paint sets them again
+ */
+const STALE_FINGERPRINT = '?';
+
+/**
+ * Comparable form of a range list; equal fingerprints paint the same lines
+ */
+function rangesFingerprint(ranges: readonly vscode.Range[]): string {
+  return ranges
+    .map(r => `${r.start.line}:${r.start.character}-${r.end.line}:${r.end.character}`)
+    .join(',');
+}
+
+/**
+ * Render pipeline for the line decorations
+ *
+ * Update requests from all sources (selection, editor and options events,
+ * polling, configuration and theme changes) are coalesced per editor and
+ * rendered together after delayMs. Painting remembers the ranges last set for
+ * each decoration type in each editor and only calls setDecorations for the
+ * types whose ranges changed - moving the cursor within a line, or a repeated
+ * update for an unchanged mode, costs no setDecorations call. Edits invalidate
+ * what was painted in the editors of the edited document.
+ */
+export class DecorationRenderer implements vscode.Disposable {
+  private painted = new Map<vscode.TextEditor, Map<string, string>>(); // Key → ranges fingerprint
+  private pending = new Set<vscode.TextEditor>();
+  private timer: NodeJS.Timeout | undefined;
+  private stats: RenderStats = { performed: 0, skipped: 0 };
+
+  /**
+   * @param update - Detects an editor's mode and paints it (called for each scheduled editor)
+   * @param delayMs - Coalescing window for scheduled updates
+   * @param logger - Receives the performed/skipped counters after each render (debug level)
+   */
+  constructor(
+    private readonly update: (editor: vscode.TextEditor) => void,
+    private readonly delayMs: number,
+    private readonly logger?: Logger
+  ) {}
+
+  /**
+   * Schedules an update of an editor; requests within delayMs are rendered once
+   *
+   * @param editor - Editor to update
+   */
+  public schedule(editor: vscode.TextEditor): void {
+    this.pending.add(editor);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.delayMs);
+    }
+  }
+
+  /**
+   * Renders all scheduled editors now
+   */
+  public flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const editors = [...this.pending];
+    this.pending.clear();
+    const before = { ...this.stats };
+    for (const editor of editors) {
+      this.update(editor);
+    }
+
+    if (editors.length > 0) {
+      this.logger?.debug(
+        `🖌️  Rendered ${editors.length} editor(s): ` +
+          `${this.stats.performed - before.performed} setDecorations, ` +
+          `${this.stats.skipped - before.skipped} skipped`,
+        { ...this.stats }
+      );
+    }
+  }
+
+  /**
+   * Drops scheduled updates that haven't been rendered yet
+   */
+  public cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Sets the ranges of every decoration type in an editor, skipping the types
+   * whose ranges are unchanged since the last paint. Types without an entry in
+   * rangesByKey are cleared.
+   *
+   * @param editor - Editor to paint
+   * @param decorations - All decoration types
+   * @param rangesByKey - Ranges per decoration key
+   */
+  public paint(
+    editor: vscode.TextEditor,
+    decorations: DecorationTypes,
+    rangesByKey: Map<string, vscode.Range[]>
+  ): void {
+    let painted = this.painted.get(editor);
+    if (!painted) {
+      painted = new Map();
+      this.painted.set(editor, painted);
+    }
+
+    for (const [key, decoration] of decorations) {
+      const ranges = rangesByKey.get(key) ?? [];
+      const fingerprint = rangesFingerprint(ranges);
+      // A decoration type never painted in this editor shows nothing
+      if ((painted.get(key) ?? '') === fingerprint) {
+        this.stats.skipped++;
+        continue;
+      }
+
+      editor.setDecorations(decoration, ranges);
+      painted.set(key, fingerprint);
+      this.stats.performed++;
+    }
+  }
+
+  /**
+   * Forgets what was painted for some decoration keys in every editor - call
+   * after their decoration types were swapped (the new types show nothing yet)
+   *
+   * @param keys - Decoration keys whose types changed
+   */
+  public forget(keys: Iterable<string>): void {
+    for (const key of keys) {
+      for (const painted of this.painted.values()) {
+        painted.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Marks the decorations painted in the editors of a document as stale. VS Code
+   * moves and stretches decoration ranges on edits (e.g. a line inserted above a
+   * decorated line widens its highlight to two lines while the line number stays
+   * the same), so the next paint sets every non-empty decoration type again.
+   *
+   * @param document - Document that was edited
+   */
+  public invalidate(document: vscode.TextDocument): void {
+    for (const [editor, painted] of this.painted) {
+      if (editor.document !== document) {
+        continue;
+      }
+      for (const [key, fingerprint] of painted) {
+        // Empty decorations stay empty whatever the edit
+        if (fingerprint !== '') {
+          painted.set(key, STALE_FINGERPRINT);
+        }
+      }
+    }
+  }
+
+  /**
+   * Forgets editors that are no longer visible: VS Code drops the decorations
+   * of hidden editors, so they are painted from scratch when shown again
+   *
+   * @param visibleEditors - Currently visible editors
+   */
+  public retain(visibleEditors: readonly vscode.TextEditor[]): void {
+    for (const editor of this.painted.keys()) {
+      if (!visibleEditors.includes(editor)) {
+        this.painted.delete(editor);
+      }
+    }
+  }
+
+  /**
+   * Counters of performed and skipped setDecorations calls
+   *
+   * @returns Copy of the counters
+   */
+  public getStats(): RenderStats {
+    return { ...this.stats };
+  }
+
+  public dispose(): void {
+    this.cancel();
+    this.painted.clear();
+  }
+}
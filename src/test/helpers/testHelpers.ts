@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { LineIndicatorApi } from '../../extension';
 
 /**
  * Test helper utilities for ModalEdit Line Indicator extension tests
@@ -91,6 +92,27 @@ export class TestHelpers {
     return this.wait(50); // 10ms debounce + 40ms buffer
   }
 
+  /**
+   * Wait until a condition holds, checking every 10ms
+   *
+   * @param condition - Condition to wait for
+   * @param timeoutMs - Give up after this long
+   * @returns Promise<boolean> - true if the condition held before the timeout
+   *
+   * Example:
+   *   assert.ok(await TestHelpers.waitFor(() => api.isReady()), 'Indicator should become ready');
+   */
+  static async waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<boolean> {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start >= timeoutMs) {
+        return false;
+      }
+      await this.wait(10);
+    }
+    return true;
+  }
+
   /**
    * Get the ModalEdit extension (if installed)
    *
@@ -205,7 +227,33 @@ export class TestHelpers {
    *   });
    */
   static async resetAllConfig(): Promise<void> {
-    const keys = ['enabled', 'normalMode', 'insertMode', 'visualMode', 'searchMode'];
+    const keys = [
+      'enabled',
+      'normalMode',
+      'insertMode',
+      'visualMode',
+      'visualLineMode',
+      'visualBlockMode',
+      'searchMode',
+      'plainMode',
+      'unknownMode',
+      'modes',
+      'multiCursor.enabled',
+      'multiCursor.maxCursors',
+      'anchorLine.enabled',
+      'anchorLine.style',
+      'initializingStyle',
+      'modeDetection.polling',
+      'modeDetection.pollingInterval',
+      'modeDetection.idlePollingInterval',
+      'modeDetection.idleTimeout',
+      'modeDetection.cursorStyleMap',
+      'modeDetection.strategy',
+      'modeDetection.adapter',
+      'modeDetection.source',
+      'modeDetection.unknownFallback',
+      'modeDetection.mismatchHint',
+    ];
 
     for (const key of keys) {
       await this.resetConfig(key);
@@ -252,6 +300,43 @@ export class TestHelpers {
     return ext.isActive;
   }
 
+  /**
+   * Get the indicator's state accessors (the extension's exports)
+   *
+   * @returns Promise<LineIndicatorApi> - Activates the extension first
+   *
+   * Example:
+   *   const api = await TestHelpers.getIndicatorApi();
+   *   assert.strictEqual(api.getShownMode(editor), 'plain');
+   */
+  static async getIndicatorApi(): Promise<LineIndicatorApi> {
+    const active = await this.ensureExtensionActive();
+    const api = this.getExtension()?.exports as LineIndicatorApi | undefined;
+    if (!active || !api) {
+      throw new Error('ModalEdit Line Indicator is not active');
+    }
+    return api;
+  }
+
+  /**
+   * Wait until an editor shows a mode
+   *
+   * @param editor - Editor to watch
+   * @param mode - Expected mode
+   * @returns Promise<string | undefined> - Mode shown when the wait ended (compare with mode)
+   *
+   * Example:
+   *   assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'visual'), 'visual');
+   */
+  static async waitForShownMode(
+    editor: vscode.TextEditor,
+    mode: string
+  ): Promise<string | undefined> {
+    const api = await this.getIndicatorApi();
+    await this.waitFor(() => api.getShownMode(editor) === mode);
+    return api.getShownMode(editor);
+  }
+
   /**
    * Move editor cursor to specified line
    *
@@ -269,6 +354,36 @@ export class TestHelpers {
     await this.waitForDebounce();
   }
 
+  /**
+   * Create a minimal stand-in for a TextEditor, for testing detectors in isolation
+   *
+   * Only `options.cursorStyle`, `selection`, `selections` and `document.lineAt()` are provided.
+   *
+   * @param cursorStyle - Cursor style reported by editor.options (undefined = not set)
+   * @param selections - Selections; the first one is the primary selection
+   * @param lines - Document text, one entry per line
+   * @returns Object usable wherever a detector reads a TextEditor
+   *
+   * Example:
+   *   const editor = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block);
+   *   assert.strictEqual(detector.detect(editor).mode, 'normal');
+   */
+  static createMockEditor(
+    cursorStyle: vscode.TextEditorCursorStyle | undefined,
+    selections: vscode.Selection[] = [new vscode.Selection(0, 0, 0, 0)],
+    lines: string[] = []
+  ): vscode.TextEditor {
+    return {
+      options: { cursorStyle },
+      selection: selections[0],
+      selections,
+      document: {
+        lineCount: lines.length,
+        lineAt: (line: number) => ({ text: lines[line] ?? '' }),
+      },
+    } as unknown as vscode.TextEditor;
+  }
+
   /**
    * Create a decoration type for testing
    *
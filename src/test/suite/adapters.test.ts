@@ -0,0 +1,189 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import {
+  getAdapter,
+  getAdapterExtension,
+  getValidModeNames,
+  MODAL_EXTENSION_ADAPTERS,
+  selectAdapter,
+  toIndicatorMode,
+} from '../../adapters';
+import { CursorStyleDetector, INDICATOR_MODES, validateCursorStyleMap } from '../../modeDetection';
+
+/**
+ * Modal Extension Adapter Tests
+ *
+ * Tests the adapters for ModalEdit, VSCodeVim, Dance and vscode-neovim:
+ * - Extension modes map onto the indicator modes
+ * - Visual refinement (visualLine, visualBlock) from the selection shape
+ * - Adapter selection for the modeDetection.adapter setting
+ * - ModalEdit mode API read from duck-typed extension exports
+ */
+suite('Modal Extension Adapter Tests', () => {
+  teardown(async () => {
+    await TestHelpers.resetAllConfig();
+  });
+
+  function vimDetector() {
+    const adapter = getAdapter('vim');
+    return new CursorStyleDetector({
+      getCursorStyleMap: () => adapter.defaultCursorStyleMap,
+      getAdapter: () => adapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+  }
+
+  test('Every adapter has a valid default cursor style map', () => {
+    for (const adapter of MODAL_EXTENSION_ADAPTERS) {
+      const { problems } = validateCursorStyleMap(
+        adapter.defaultCursorStyleMap,
+        getValidModeNames(adapter)
+      );
+      assert.deepStrictEqual(problems, [], adapter.displayName);
+    }
+  });
+
+  test('Extension modes map onto indicator modes', () => {
+    assert.strictEqual(toIndicatorMode(getAdapter('vim'), 'replace'), 'insert');
+    assert.strictEqual(toIndicatorMode(getAdapter('vim'), 'visualBlock'), 'visualBlock');
+    assert.strictEqual(toIndicatorMode(getAdapter('dance'), 'select'), 'visual');
+    assert.strictEqual(toIndicatorMode(getAdapter('vim'), 'search'), 'search');
+    assert.strictEqual(toIndicatorMode(getAdapter('vim'), 'operatorPending'), undefined);
+  });
+
+  test('Vim replace mode is detected from the underline cursor', () => {
+    const result = vimDetector().detect(
+      TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Underline)
+    );
+
+    assert.strictEqual(result.mode, 'insert');
+    assert.strictEqual(result.nativeMode, 'replace');
+  });
+
+  test('Vim visual line selection is refined to visualLine', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 0, 1, 3)],
+      ['first', 'two']
+    );
+    const result = vimDetector().detect(editor);
+
+    assert.strictEqual(result.mode, 'visualLine');
+    assert.strictEqual(result.nativeMode, undefined);
+  });
+
+  test('Vim block selection is refined to visualBlock', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 2, 0, 4), new vscode.Selection(1, 2, 1, 4)],
+      ['abcdef', 'abcdef']
+    );
+    const result = vimDetector().detect(editor);
+
+    assert.strictEqual(result.mode, 'visualBlock');
+    assert.strictEqual(result.nativeMode, undefined);
+  });
+
+  test('Vim character selection stays visual', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 1, 0, 3)],
+      ['abcdef']
+    );
+    const result = vimDetector().detect(editor);
+
+    assert.strictEqual(result.mode, 'visual');
+    assert.strictEqual(result.nativeMode, undefined);
+  });
+
+  test('ModalEdit mode API is read from a getMode function or mode property', () => {
+    const readApi = getAdapter('modaledit').readApi!;
+
+    assert.strictEqual(readApi({ getMode: () => 'visual' })?.getMode(), 'visual');
+    assert.strictEqual(readApi({ mode: { mode: 'normal' } })?.getMode(), 'normal');
+    assert.strictEqual(readApi({ mode: 42 })?.getMode(), undefined);
+  });
+
+  test('ModalEdit mode API events deliver the mode', () => {
+    let fire: (payload: unknown) => void = () => undefined;
+    let disposed = false;
+    const api = getAdapter('modaledit').readApi!({
+      onDidChangeMode: (listener: (payload: unknown) => void) => {
+        fire = listener;
+        return { dispose: () => (disposed = true) };
+      },
+    });
+
+    let changes = 0;
+    const subscription = api?.onDidChangeMode?.(() => changes++);
+    fire('insert');
+
+    assert.strictEqual(changes, 1);
+    assert.strictEqual(api?.getMode(), 'insert');
+    subscription?.dispose();
+    assert.ok(disposed, 'Disposing should unsubscribe from the extension');
+  });
+
+  test('Exports without mode state are not a mode API', () => {
+    const readApi = getAdapter('modaledit').readApi!;
+
+    assert.strictEqual(readApi(undefined), undefined);
+    assert.strictEqual(readApi({ version: '2.0' }), undefined);
+  });
+
+  test('Explicit adapter setting selects that adapter', () => {
+    assert.strictEqual(selectAdapter('dance').id, 'dance');
+    assert.strictEqual(selectAdapter('neovim').id, 'neovim');
+    assert.strictEqual(selectAdapter('unknown').id, 'modaledit');
+  });
+
+  test('Auto selects an installed modal extension', () => {
+    const adapter = selectAdapter('auto');
+    const installed = MODAL_EXTENSION_ADAPTERS.filter(
+      candidate => !!getAdapterExtension(candidate)
+    );
+
+    if (installed.length > 0) {
+      assert.strictEqual(adapter.id, installed[0].id);
+    } else {
+      assert.strictEqual(adapter.id, 'standalone');
+    }
+  });
+
+  test('Auto prefers ModalEdit when several modal extensions are installed', () => {
+    const installedIds =
+      (...ids: string[]) =>
+      (adapter: { id: string }) =>
+        ids.includes(adapter.id);
+
+    assert.strictEqual(selectAdapter('auto', installedIds('vim', 'modaledit')).id, 'modaledit');
+    assert.strictEqual(
+      selectAdapter('auto', installedIds('neovim', 'dance', 'modaledit')).id,
+      'modaledit'
+    );
+    assert.strictEqual(selectAdapter('auto', installedIds('neovim', 'vim')).id, 'vim');
+    assert.strictEqual(selectAdapter('auto', installedIds()).id, 'standalone');
+    assert.strictEqual(selectAdapter('dance', installedIds('modaledit')).id, 'dance');
+  });
+
+  test('Extension uses the adapter of the modeDetection.adapter setting', async () => {
+    await TestHelpers.ensureExtensionActive();
+    const api = await TestHelpers.getIndicatorApi();
+
+    // No modal extension in the test host: auto falls back to standalone
+    assert.strictEqual(api.getAdapterId(), 'standalone');
+
+    for (const setting of ['modaledit', 'vim', 'dance', 'neovim', 'standalone']) {
+      await TestHelpers.setConfig('modeDetection.adapter', setting);
+
+      assert.ok(
+        await TestHelpers.waitFor(() => api.getAdapterId() === setting),
+        `modeDetection.adapter '${setting}' should select the ${setting} adapter`
+      );
+    }
+
+    await TestHelpers.setConfig('modeDetection.adapter', 'auto');
+    assert.ok(await TestHelpers.waitFor(() => api.getAdapterId() === 'standalone'));
+  });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager, DEFAULT_ANCHOR_LINE } from '../../configuration';
+import { getAnchorRanges } from '../../ranges';
+
+/**
+ * Anchor Line Tests
+ *
+ * Tests the marker on the line where a visual selection started:
+ * - anchorLine.enabled / anchorLine.style settings and defaults
+ * - Theme overrides on the anchor line style
+ * - Anchor lines of forward, reversed, empty and capped selections
+ */
+suite('Anchor Line Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Anchor line is disabled by default', () => {
+    const anchorLine = configManager.getAnchorLineConfig();
+
+    assert.strictEqual(anchorLine.enabled, false);
+    assert.deepStrictEqual(anchorLine.style, DEFAULT_ANCHOR_LINE);
+  });
+
+  test('Anchor line style is merged with defaults', async () => {
+    await TestHelpers.setConfig('anchorLine.style', { overviewRulerColor: '#ff00ff' });
+
+    const { style } = configManager.getAnchorLineConfig();
+    assert.strictEqual(style.overviewRulerColor, '#ff00ff');
+    assert.strictEqual(style.backgroundColor, DEFAULT_ANCHOR_LINE.backgroundColor);
+  });
+
+  test('Anchor line style supports theme overrides', async () => {
+    const themeKind = configManager.getCurrentThemeKind();
+    await TestHelpers.setConfig('anchorLine.style', {
+      overviewRulerColor: '#ff00ff',
+      [themeKind]: { overviewRulerColor: '#00ffff' },
+    });
+
+    assert.strictEqual(configManager.getAnchorLineConfig().style.overviewRulerColor, '#00ffff');
+  });
+
+  function anchorLines(editor: vscode.TextEditor, maxCursors = 200): number[] {
+    return getAnchorRanges(editor, { enabled: true, maxCursors }).map(r => r.start.line);
+  }
+
+  test('Anchor line is where the selection started', () => {
+    const forward = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, [
+      new vscode.Selection(1, 0, 3, 3),
+    ]);
+    // Anchor after the cursor: selected upwards from line 3
+    const reversed = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, [
+      new vscode.Selection(3, 3, 1, 0),
+    ]);
+
+    assert.deepStrictEqual(anchorLines(forward), [1]);
+    assert.deepStrictEqual(anchorLines(reversed), [3]);
+  });
+
+  test('Empty selections have no anchor line, shared anchors one', () => {
+    const editor = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, [
+      new vscode.Selection(2, 0, 2, 4),
+      new vscode.Selection(5, 1, 5, 1),
+      new vscode.Selection(2, 6, 4, 0),
+      new vscode.Selection(7, 0, 6, 2),
+    ]);
+
+    assert.deepStrictEqual(anchorLines(editor), [2, 7]);
+    assert.deepStrictEqual(anchorLines(editor, 2), [2]);
+  });
+});
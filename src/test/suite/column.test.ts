@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { characterAtColumn, getColumnRanges, visualColumn } from '../../column';
+import { ConfigurationManager, DEFAULT_COLUMN_STYLE } from '../../configuration';
+
+/**
+ * Cursor Column Tests
+ *
+ * Tests the cursor column highlight (crosshair):
+ * - Column cells are computed from the visible ranges around the cursor
+ * - Tabs are expanded to tab stops; short lines get no cell
+ * - `column` settings resolve per mode (off by default, sub-modes use the parent)
+ */
+suite('Cursor Column Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  function scrolledEditor(
+    cursor: vscode.Position,
+    lines: string[],
+    visibleRanges: vscode.Range[]
+  ): vscode.TextEditor {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(cursor, cursor)],
+      lines
+    );
+    return { ...editor, visibleRanges } as unknown as vscode.TextEditor;
+  }
+
+  function cells(ranges: vscode.Range[]): string[] {
+    return ranges.map(r => `${r.start.line}:${r.start.character}-${r.end.character}`);
+  }
+
+  test('Tabs advance to the next tab stop', () => {
+    assert.strictEqual(visualColumn('\tab', 1, 4), 4);
+    assert.strictEqual(visualColumn('ab\tc', 3, 4), 4);
+    assert.strictEqual(characterAtColumn('\tab', 2, 4), 0);
+    assert.strictEqual(characterAtColumn('\tab', 5, 4), 2);
+    assert.strictEqual(characterAtColumn('ab', 2, 4), undefined);
+  });
+
+  test('Column covers the visible lines except the cursor line', () => {
+    const editor = scrolledEditor(
+      new vscode.Position(2, 2),
+      ['abcdef', 'ab', 'abcdef', 'abcdef', 'abcdef'],
+      [new vscode.Range(1, 0, 3, 0)]
+    );
+
+    assert.deepStrictEqual(cells(getColumnRanges(editor)), ['3:2-3']);
+  });
+
+  test('Radius limits the lines around the cursor', () => {
+    const lines = Array.from({ length: 10 }, () => 'abcdef');
+    const editor = scrolledEditor(new vscode.Position(5, 1), lines, [new vscode.Range(0, 0, 9, 0)]);
+
+    assert.deepStrictEqual(cells(getColumnRanges(editor, 1)), ['4:1-2', '6:1-2']);
+    assert.strictEqual(getColumnRanges(editor).length, 9);
+  });
+
+  test('Column follows the visual column across tabs', () => {
+    const editor = scrolledEditor(
+      new vscode.Position(0, 1),
+      ['\tx', 'abcdefgh'],
+      [new vscode.Range(0, 0, 1, 0)]
+    );
+
+    assert.deepStrictEqual(cells(getColumnRanges(editor)), ['1:4-5']);
+  });
+
+  test('Column highlight is off by default', () => {
+    const column = configManager.getColumnConfig('normal');
+    assert.strictEqual(column.enabled, false);
+    assert.strictEqual(column.radius, undefined);
+    assert.deepStrictEqual(column.style, DEFAULT_COLUMN_STYLE);
+  });
+
+  test('Column highlight can be styled per mode and theme', async () => {
+    await TestHelpers.setConfig('normalMode', {
+      column: {
+        enabled: true,
+        radius: 5,
+        backgroundColor: 'rgba(0, 170, 0, 0.15)',
+        dark: { border: '1px solid #00aa00' },
+        light: { border: '1px solid #00aa00' },
+        darkHC: { border: '1px solid #00aa00' },
+        lightHC: { border: '1px solid #00aa00' },
+      },
+    });
+
+    const column = configManager.getColumnConfig('normal');
+    assert.strictEqual(column.enabled, true);
+    assert.strictEqual(column.radius, 5);
+    assert.strictEqual(column.style.backgroundColor, 'rgba(0, 170, 0, 0.15)');
+    assert.strictEqual(column.style.border, '1px solid #00aa00');
+    assert.strictEqual(configManager.getColumnConfig('insert').enabled, false);
+  });
+
+  test('Sub-modes use the visual column highlight unless set', async () => {
+    await TestHelpers.setConfig('visualMode', { column: { enabled: true, radius: 3 } });
+    await TestHelpers.setConfig('visualBlockMode', { column: { radius: 8 } });
+
+    assert.strictEqual(configManager.getColumnConfig('visualLine').enabled, true);
+    assert.strictEqual(configManager.getColumnConfig('visualLine').radius, 3);
+    assert.strictEqual(configManager.getColumnConfig('visualBlock').radius, 8);
+  });
+
+  test('Extension handles the column highlight while scrolling', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('insertMode', { column: { enabled: true } });
+    await TestHelpers.setConfig('normalMode', { column: { enabled: true } });
+    const lines = Array.from({ length: 200 }, (_, i) => `line ${i}`);
+    const editor = await TestHelpers.createTestEditor(lines.join('\n'));
+
+    editor.selection = new vscode.Selection(100, 3, 100, 3);
+    editor.revealRange(new vscode.Range(100, 0, 100, 0));
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual(editor.selection.active.line, 100);
+  });
+});
@@ -0,0 +1,185 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import {
+  buildCursorStyleMap,
+  CursorStyleName,
+  ModeCursorStyles,
+  DEFAULT_CURSOR_STYLE_MAP,
+  getCursorStyleName,
+  resolveModeFromCursorStyle,
+  validateCursorStyleMap,
+} from '../../modeDetection';
+
+/**
+ * Build a table the way it is derived from ModalEdit cursor style settings
+ */
+function buildFromModalEdit(styles: ModeCursorStyles) {
+  return buildCursorStyleMap(styles, {
+    extensionName: 'ModalEdit',
+    selectionModes: ['visual'],
+    defaultRules: DEFAULT_CURSOR_STYLE_MAP,
+  });
+}
+
+/**
+ * Cursor Style Map Tests
+ *
+ * Tests the cursor style → mode table used by mode detection:
+ * - Default table reproduces the previous hard-coded behaviour
+ * - Custom tables are validated (invalid rules dropped, conflicts reported)
+ * - Tables derived from ModalEdit cursor style settings
+ */
+suite('Cursor Style Map Tests', () => {
+  teardown(async () => {
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Cursor style values convert to setting names', () => {
+    assert.strictEqual(getCursorStyleName(vscode.TextEditorCursorStyle.Block), 'block');
+    assert.strictEqual(getCursorStyleName(vscode.TextEditorCursorStyle.LineThin), 'line-thin');
+    assert.strictEqual(getCursorStyleName(undefined), undefined);
+    assert.strictEqual(getCursorStyleName(99), undefined);
+  });
+
+  test('Default table matches previous detection behaviour', () => {
+    const cases: [CursorStyleName, boolean, string][] = [
+      ['line', false, 'insert'],
+      ['line', true, 'insert'],
+      ['block', false, 'normal'],
+      ['block', true, 'visual'],
+      ['block-outline', false, 'normal'],
+      ['underline', false, 'search'],
+      ['underline', true, 'visual'],
+      ['underline-thin', false, 'search'],
+      ['line-thin', false, 'insert'],
+      ['line-thin', true, 'visual'],
+    ];
+
+    for (const [style, hasSelection, expected] of cases) {
+      const mode = resolveModeFromCursorStyle(DEFAULT_CURSOR_STYLE_MAP, style, hasSelection);
+      assert.strictEqual(mode, expected, `${style} (selection: ${hasSelection})`);
+    }
+  });
+
+  test('Default table is valid', () => {
+    const { rules, problems } = validateCursorStyleMap(DEFAULT_CURSOR_STYLE_MAP);
+
+    assert.deepStrictEqual(problems, []);
+    assert.strictEqual(rules.length, DEFAULT_CURSOR_STYLE_MAP.length);
+  });
+
+  test('Unmatched cursor style resolves to undefined', () => {
+    const rules = [{ cursorStyle: 'block' as const, mode: 'normal' as const }];
+
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'line', false), undefined);
+    assert.strictEqual(resolveModeFromCursorStyle(rules, undefined, false), undefined);
+  });
+
+  test('Rule without selection matches both selection states', () => {
+    const rules = [{ cursorStyle: 'underline' as const, mode: 'visual' as const }];
+
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'underline', false), 'visual');
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'underline', true), 'visual');
+  });
+
+  test('Invalid rules are dropped and reported', () => {
+    const { rules, problems } = validateCursorStyleMap([
+      { cursorStyle: 'block', mode: 'normal' },
+      { cursorStyle: 'triangle', mode: 'normal' },
+      { cursorStyle: 'line', mode: 'replace' },
+      { cursorStyle: 'line', selection: 'yes', mode: 'insert' },
+    ]);
+
+    assert.strictEqual(rules.length, 1);
+    assert.strictEqual(problems.length, 3);
+  });
+
+  test('Two modes mapped to the same cursor style are reported', () => {
+    const { rules, problems } = validateCursorStyleMap([
+      { cursorStyle: 'underline', mode: 'visual' },
+      { cursorStyle: 'underline', selection: false, mode: 'search' },
+    ]);
+
+    assert.strictEqual(rules.length, 2, 'Conflicting rules are kept (first wins)');
+    assert.strictEqual(problems.length, 1);
+    assert.ok(problems[0].includes('VISUAL') && problems[0].includes('SEARCH'));
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'underline', false), 'visual');
+  });
+
+  test('Same style split by selection state is not a conflict', () => {
+    const { problems } = validateCursorStyleMap([
+      { cursorStyle: 'block', selection: false, mode: 'normal' },
+      { cursorStyle: 'block', selection: true, mode: 'visual' },
+    ]);
+
+    assert.deepStrictEqual(problems, []);
+  });
+
+  test('Non-array setting falls back to default table', () => {
+    const { rules, problems } = validateCursorStyleMap({ block: 'normal' });
+
+    assert.strictEqual(rules, DEFAULT_CURSOR_STYLE_MAP);
+    assert.strictEqual(problems.length, 1);
+  });
+
+  test('Table derived from ModalEdit cursor styles', () => {
+    const { rules, problems } = buildFromModalEdit({
+      normal: 'block',
+      insert: 'line',
+      visual: 'underline',
+    });
+
+    assert.deepStrictEqual(problems, []);
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'block', false), 'normal');
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'block', true), 'visual');
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'line', false), 'insert');
+    assert.strictEqual(
+      resolveModeFromCursorStyle(rules, 'underline', true),
+      'visual',
+      'README example: underline visual cursor must not report SEARCH'
+    );
+  });
+
+  test('Derived table keeps default rules for unused cursor styles', () => {
+    const { rules } = buildFromModalEdit({ normal: 'block' });
+
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'line', false), 'insert');
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'underline-thin', false), 'search');
+  });
+
+  test('Normal and visual may share a ModalEdit cursor style', () => {
+    const { rules, problems } = buildFromModalEdit({
+      normal: 'block',
+      visual: 'block',
+    });
+
+    assert.deepStrictEqual(problems, []);
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'block', false), 'normal');
+    assert.strictEqual(resolveModeFromCursorStyle(rules, 'block', true), 'visual');
+  });
+
+  test('Ambiguous ModalEdit cursor styles are reported', () => {
+    const { problems } = buildFromModalEdit({
+      normal: 'block',
+      search: 'block',
+    });
+
+    assert.strictEqual(problems.length, 1);
+    assert.ok(problems[0].includes('NORMAL') && problems[0].includes('SEARCH'));
+  });
+
+  test('Extension handles custom cursor style map setting', async () => {
+    await TestHelpers.ensureExtensionActive();
+
+    await TestHelpers.setConfig('modeDetection.cursorStyleMap', [
+      { cursorStyle: 'block', mode: 'normal' },
+      { cursorStyle: 'underline', mode: 'visual' },
+    ]);
+    await TestHelpers.waitForDebounce();
+
+    const config = TestHelpers.getConfig();
+    const map = config.get<unknown[]>('modeDetection.cursorStyleMap');
+    assert.strictEqual(map?.length, 2);
+  });
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { DecorationPool } from '../../decorationPool';
+
+/**
+ * Decoration Pool Tests
+ *
+ * Tests incremental reloads of decoration types:
+ * - Unchanged options keep their type, changed ones are replaced per key
+ * - Swapped-out types are reused when their options come back (theme switches)
+ * - Keys with identical options still get separate types
+ */
+suite('Decoration Pool Tests', () => {
+  const green = { border: '2px dotted #00aa00', isWholeLine: true };
+  const red = { border: '2px solid #aa0000', isWholeLine: true };
+  const white = { border: '2px dotted #ffffff', isWholeLine: true };
+
+  test('Unchanged options keep their decoration type', () => {
+    const pool = new DecorationPool();
+    try {
+      const first = pool.update(new Map([['normal.default', green]]));
+      const second = pool.update(
+        new Map([['normal.default', { isWholeLine: true, border: '2px dotted #00aa00' }]])
+      );
+
+      assert.strictEqual(second.types.get('normal.default'), first.types.get('normal.default'));
+      assert.strictEqual(second.unchanged, 1);
+      assert.strictEqual(second.replaced.size, 0);
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  test('Only changed keys get a new decoration type', () => {
+    const pool = new DecorationPool();
+    try {
+      const first = pool.update(
+        new Map([
+          ['normal.default', green],
+          ['insert.default', red],
+        ])
+      );
+      const second = pool.update(
+        new Map([
+          ['normal.default', white],
+          ['insert.default', red],
+        ])
+      );
+
+      assert.deepStrictEqual([...second.replaced.keys()], ['normal.default']);
+      assert.strictEqual(second.replaced.get('normal.default'), first.types.get('normal.default'));
+      assert.strictEqual(second.types.get('insert.default'), first.types.get('insert.default'));
+      assert.strictEqual(second.created, 1);
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  test('Options coming back reuse the pooled type', () => {
+    const pool = new DecorationPool();
+    try {
+      const dark = pool.update(new Map([['normal.default', green]]));
+      pool.update(new Map([['normal.default', white]]));
+      const darkAgain = pool.update(new Map([['normal.default', green]]));
+
+      assert.strictEqual(darkAgain.types.get('normal.default'), dark.types.get('normal.default'));
+      assert.strictEqual(darkAgain.reused, 1);
+      assert.strictEqual(darkAgain.created, 0);
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  test('Dropped keys are reported as replaced', () => {
+    const pool = new DecorationPool();
+    try {
+      pool.update(
+        new Map([
+          ['normal.default', green],
+          ['anchorLine', white],
+        ])
+      );
+      const update = pool.update(new Map([['normal.default', green]]));
+
+      assert.deepStrictEqual([...update.replaced.keys()], ['anchorLine']);
+      assert.strictEqual(update.types.has('anchorLine'), false);
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  test('Keys with identical options get separate types', () => {
+    const pool = new DecorationPool();
+    try {
+      const update = pool.update(
+        new Map([
+          ['visual.default', green],
+          ['visualLine.default', green],
+        ])
+      );
+
+      assert.notStrictEqual(
+        update.types.get('visual.default'),
+        update.types.get('visualLine.default')
+      );
+    } finally {
+      pool.dispose();
+    }
+  });
+
+  test('Idle types beyond the limit are disposed', () => {
+    const pool = new DecorationPool(1);
+    try {
+      pool.update(new Map([['normal.default', green]]));
+      pool.update(new Map([['normal.default', red]]));
+      pool.update(new Map([['normal.default', white]]));
+
+      assert.strictEqual(pool.getIdleCount(), 1);
+    } finally {
+      pool.dispose();
+    }
+  });
+});
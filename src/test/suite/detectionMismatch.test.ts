@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { TestHelpers } from '../helpers/testHelpers';
+import { MismatchTracker } from '../../detectionMismatch';
+
+/**
+ * Detection Mismatch Tests
+ *
+ * Tests the cross-check of the shown mode against typing in the document:
+ * - modeDetection.mismatchHint setting
+ * - Mismatches are counted while consecutive and logged once per kind
+ * - The hint is shown once, after the threshold, unless disabled
+ * - Typing while a typing-free mode is detected is handled without errors
+ */
+suite('Detection Mismatch Tests', () => {
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('modeDetection.mismatchHint defaults to true', () => {
+    const config = TestHelpers.getConfig();
+    assert.strictEqual(config.get('modeDetection.mismatchHint'), true);
+  });
+
+  test('Agreement ends a run of mismatches', () => {
+    const tracker = new MismatchTracker(3);
+
+    tracker.disagree('normal-block-false', true);
+    tracker.disagree('normal-block-false', true);
+    assert.strictEqual(tracker.consecutive, 2);
+
+    tracker.agree();
+    assert.strictEqual(tracker.consecutive, 0);
+    assert.strictEqual(tracker.disagree('normal-block-false', true).hint, false);
+    assert.strictEqual(tracker.consecutive, 1);
+  });
+
+  test('Each kind of mismatch is logged once in a row', () => {
+    const tracker = new MismatchTracker(3);
+
+    assert.strictEqual(tracker.disagree('normal-block-false', false).log, true);
+    assert.strictEqual(tracker.disagree('normal-block-false', false).log, false);
+    assert.strictEqual(tracker.disagree('visual-block-true', false).log, true);
+    assert.strictEqual(tracker.disagree('normal-block-false', false).log, true);
+  });
+
+  test('Hint is shown once after the threshold', () => {
+    const tracker = new MismatchTracker(3);
+
+    assert.strictEqual(tracker.disagree('normal-block-false', true).hint, false);
+    assert.strictEqual(tracker.disagree('normal-block-false', true).hint, false);
+    assert.strictEqual(tracker.disagree('normal-block-false', true).hint, true);
+    assert.strictEqual(tracker.disagree('normal-block-false', true).hint, false);
+
+    tracker.agree();
+    for (let i = 0; i < 3; i++) {
+      assert.strictEqual(tracker.disagree('normal-block-false', true).hint, false);
+    }
+  });
+
+  test('Hint is not shown when disabled', () => {
+    const tracker = new MismatchTracker(3);
+
+    for (let i = 0; i < 4; i++) {
+      assert.strictEqual(tracker.disagree('normal-block-false', false).hint, false);
+    }
+    assert.strictEqual(tracker.consecutive, 4);
+    assert.strictEqual(tracker.disagree('normal-block-false', true).hint, true);
+  });
+
+  test('Typing in a typing mode is not a mismatch', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.cursorStyleMap', [
+      { cursorStyle: 'line', mode: 'insert' },
+      { cursorStyle: 'block', mode: 'insert' },
+    ]);
+    const editor = await TestHelpers.createTestEditor('line 1');
+
+    await editor.edit(builder => builder.insert(editor.selection.active, 'x'));
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual(editor.document.lineAt(0).text, 'xline 1');
+  });
+
+  test('Typing in a typing-free mode is handled', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.mismatchHint', false);
+    await TestHelpers.setConfig('modeDetection.cursorStyleMap', [
+      { cursorStyle: 'line', mode: 'normal' },
+      { cursorStyle: 'block', mode: 'normal' },
+    ]);
+    const editor = await TestHelpers.createTestEditor('line 1');
+    await TestHelpers.waitForDebounce();
+
+    for (const text of ['a', 'b', 'c', 'd']) {
+      await editor.edit(builder => builder.insert(editor.selection.active, text));
+    }
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual(editor.document.lineAt(0).text.length, 'line 1'.length + 4);
+  });
+});
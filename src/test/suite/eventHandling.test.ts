@@ -9,6 +9,8 @@ import { TestHelpers } from '../helpers/testHelpers';
  * - Selection changes (cursor movement)
  * - Active editor changes (switching files)
  * - Configuration changes (settings updates)
+ * - Cursor style changes (mode updates without polling)
+ * - Split views (each visible editor decorated with its own mode)
  */
 suite('Event Handling Tests', () => {
   teardown(async () => {
@@ -201,4 +203,81 @@ suite('Event Handling Tests', () => {
     // Test passes if no errors occurred
     assert.ok(true);
   });
+
+  test('Cursor style changes update the mode without polling', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'modaledit');
+    await TestHelpers.setConfig('modeDetection.cursorStyleMap', [
+      { cursorStyle: 'line', mode: 'insert' },
+      { cursorStyle: 'block', mode: 'normal' },
+    ]);
+    const api = await TestHelpers.getIndicatorApi();
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+    assert.strictEqual(api.getEffectivePollingInterval(), undefined, 'Polling should be off');
+
+    // Simulate what ModalEdit does on a mode switch
+    editor.options = { cursorStyle: vscode.TextEditorCursorStyle.Block };
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'normal'), 'normal');
+
+    editor.options = { cursorStyle: vscode.TextEditorCursorStyle.Line };
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'insert'), 'insert');
+  });
+
+  test('Polling fallback can be enabled and disabled at runtime', async () => {
+    await TestHelpers.ensureExtensionActive();
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+
+    await TestHelpers.setConfig('modeDetection.pollingInterval', 20);
+    await TestHelpers.setConfig('modeDetection.polling', true);
+    await TestHelpers.wait(100);
+
+    editor.options = { cursorStyle: vscode.TextEditorCursorStyle.Line };
+    await TestHelpers.wait(100);
+
+    await TestHelpers.setConfig('modeDetection.polling', false);
+    await TestHelpers.waitForDebounce();
+
+    // Test passes if switching detection strategies caused no errors
+    assert.ok(true);
+  });
+
+  test('Polling waits for a modal extension to be installed', async () => {
+    await TestHelpers.ensureExtensionActive();
+    const api = await TestHelpers.getIndicatorApi();
+    await TestHelpers.createTestEditor('line 1\nline 2');
+
+    await TestHelpers.setConfig('modeDetection.pollingInterval', 20);
+    await TestHelpers.setConfig('modeDetection.idleTimeout', 1000);
+    await TestHelpers.setConfig('modeDetection.polling', true);
+    await TestHelpers.waitForDebounce();
+
+    // No modal extension in the test host: nothing to poll (see Polling Tests for the back-off)
+    assert.strictEqual(api.getEffectivePollingInterval(), undefined);
+  });
+
+  test('Editors in split view keep their own mode', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'modaledit');
+    await TestHelpers.setConfig('modeDetection.cursorStyleMap', [
+      { cursorStyle: 'line', mode: 'insert' },
+      { cursorStyle: 'block', mode: 'normal' },
+    ]);
+    const left = await TestHelpers.createTestEditor('left 1\nleft 2');
+    const rightDoc = await TestHelpers.createTestDocument('right 1\nright 2');
+    const right = await vscode.window.showTextDocument(rightDoc, vscode.ViewColumn.Two);
+
+    // Right editor in NORMAL (block), left editor in INSERT (line)
+    right.options = { cursorStyle: vscode.TextEditorCursorStyle.Block };
+    left.options = { cursorStyle: vscode.TextEditorCursorStyle.Line };
+    assert.strictEqual(await TestHelpers.waitForShownMode(right, 'normal'), 'normal');
+    assert.strictEqual(await TestHelpers.waitForShownMode(left, 'insert'), 'insert');
+
+    // Reloading decorations re-decorates every visible editor with its own mode
+    await TestHelpers.setConfig('normalMode', { border: '2px dotted #00ff00' });
+    await TestHelpers.waitForDebounce();
+
+    const api = await TestHelpers.getIndicatorApi();
+    assert.strictEqual(api.getShownMode(right), 'normal');
+    assert.strictEqual(api.getShownMode(left), 'insert');
+  });
 });
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager } from '../../configuration';
+
+/**
+ * Inactive Editor Style Tests
+ *
+ * Tests the per-mode `inactive` variant used for visible editors without focus:
+ * - Defaults are the mode's own style with faded border colors
+ * - `inactive` properties and theme overrides follow the usual cascade
+ */
+suite('Inactive Editor Style Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Inactive variant defaults to a faded mode border', () => {
+    const inactive = configManager.getConfig('normal', 'inactive');
+
+    assert.strictEqual(inactive.border, '2px dotted #00aa0080');
+    assert.strictEqual(inactive.backgroundColor, 'rgba(255, 255, 255, 0)');
+  });
+
+  test('Inactive variant follows customized mode style', async () => {
+    await TestHelpers.setConfig('insertMode', { border: '3px solid #f00' });
+
+    assert.strictEqual(configManager.getConfig('insert', 'inactive').border, '3px solid #f008');
+  });
+
+  test('Non-hex colors are not faded', async () => {
+    await TestHelpers.setConfig('visualMode', { border: '2px dashed cyan' });
+
+    assert.strictEqual(configManager.getConfig('visual', 'inactive').border, '2px dashed cyan');
+  });
+
+  test('Inactive properties override the faded defaults', async () => {
+    await TestHelpers.setConfig('normalMode', {
+      border: '2px dotted #00aa00',
+      inactive: { border: '1px dotted #005500', backgroundColor: 'rgba(0, 0, 0, 0.1)' },
+    });
+
+    const inactive = configManager.getConfig('normal', 'inactive');
+    assert.strictEqual(inactive.border, '1px dotted #005500');
+    assert.strictEqual(inactive.backgroundColor, 'rgba(0, 0, 0, 0.1)');
+    assert.strictEqual(configManager.getConfig('normal').border, '2px dotted #00aa00');
+  });
+
+  test('Inactive variant supports theme overrides', async () => {
+    const themeKind = configManager.getCurrentThemeKind();
+    await TestHelpers.setConfig('normalMode', {
+      border: '2px dotted #00aa00',
+      inactive: { border: '1px dotted #005500', [themeKind]: { border: '1px dotted #ffffff' } },
+    });
+
+    assert.strictEqual(configManager.getConfig('normal', 'inactive').border, '1px dotted #ffffff');
+  });
+
+  test('Focus change between split editors causes no errors', async () => {
+    await TestHelpers.ensureExtensionActive();
+    const left = await TestHelpers.createTestEditor('left 1\nleft 2');
+    const rightDoc = await TestHelpers.createTestDocument('right 1\nright 2');
+    await vscode.window.showTextDocument(rightDoc, vscode.ViewColumn.Two);
+    await TestHelpers.waitForDebounce();
+
+    await vscode.window.showTextDocument(left.document, vscode.ViewColumn.One);
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual(vscode.window.activeTextEditor?.document, left.document);
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager, DEFAULT_INITIALIZING_STYLE } from '../../configuration';
+
+/**
+ * Initializing Style Tests
+ *
+ * Tests the style shown while the modal extension starts up:
+ * - initializingStyle defaults and theme overrides
+ * - Extension becomes ready and decorates with the detected mode
+ */
+suite('Initializing Style Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Initializing style has correct defaults', () => {
+    assert.deepStrictEqual(configManager.getInitializingStyle(), DEFAULT_INITIALIZING_STYLE);
+  });
+
+  test('Initializing style supports theme overrides', async () => {
+    const themeKind = configManager.getCurrentThemeKind();
+    await TestHelpers.setConfig('initializingStyle', {
+      border: '1px dotted #444444',
+      [themeKind]: { border: '1px dotted #cccccc' },
+    });
+
+    assert.strictEqual(configManager.getInitializingStyle().border, '1px dotted #cccccc');
+  });
+
+  test('Extension becomes ready and shows the detected mode', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    const api = await TestHelpers.getIndicatorApi();
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+
+    assert.ok(await TestHelpers.waitFor(() => api.isReady()), 'Indicator should become ready');
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'plain'), 'plain');
+
+    // Restyling the initializing state doesn't bring it back
+    await TestHelpers.setConfig('initializingStyle', { border: '1px dashed #444444' });
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual(api.isReady(), true);
+    assert.strictEqual(api.getShownMode(editor), 'plain');
+  });
+});
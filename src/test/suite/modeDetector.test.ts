@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { getAdapter } from '../../adapters';
+import {
+  createModeDetector,
+  CursorStyleDetector,
+  CursorStyleRule,
+  DEFAULT_CURSOR_STYLE_MAP,
+  INDICATOR_MODES,
+} from '../../modeDetection';
+
+/**
+ * Mode Detector Tests
+ *
+ * Tests ModeDetector implementations in isolation, using mock editors
+ * instead of real ModalEdit mode switches.
+ */
+suite('Mode Detector Tests', () => {
+  const withSelection = [new vscode.Selection(0, 0, 0, 5)];
+  const getModalEditAdapter = () => getAdapter('modaledit');
+
+  teardown(async () => {
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Cursor style detector reports mode, confidence and reason', () => {
+    const detector = new CursorStyleDetector({
+      getCursorStyleMap: () => DEFAULT_CURSOR_STYLE_MAP,
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+
+    const result = detector.detect(
+      TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block)
+    );
+
+    assert.strictEqual(result.mode, 'normal');
+    assert.strictEqual(result.confidence, 'high');
+    assert.ok(result.reason.includes('block'), 'Reason should mention the cursor style');
+  });
+
+  test('Cursor style detector uses selection state', () => {
+    const detector = new CursorStyleDetector({
+      getCursorStyleMap: () => DEFAULT_CURSOR_STYLE_MAP,
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+
+    const editor = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, withSelection, [
+      'first line',
+    ]);
+    assert.strictEqual(detector.detect(editor).mode, 'visual');
+  });
+
+  test('Cursor style detector reports unknown without a matching rule', () => {
+    const detector = new CursorStyleDetector({
+      getCursorStyleMap: () => [],
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+
+    const noCursorStyle = detector.detect(TestHelpers.createMockEditor(undefined));
+    assert.strictEqual(noCursorStyle.mode, 'unknown');
+    assert.strictEqual(noCursorStyle.confidence, 'low');
+    assert.ok(noCursorStyle.reason.includes('no cursor style'), 'Reason should explain why');
+
+    const unmatched = detector.detect(
+      TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, withSelection)
+    );
+    assert.strictEqual(unmatched.mode, 'unknown');
+    assert.strictEqual(unmatched.confidence, 'low');
+    assert.ok(unmatched.reason.includes('block'), 'Reason should mention the cursor style');
+  });
+
+  test('Cursor style detector has low confidence without an editor', () => {
+    const detector = new CursorStyleDetector({
+      getCursorStyleMap: () => DEFAULT_CURSOR_STYLE_MAP,
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+
+    const result = detector.detect(undefined);
+    assert.strictEqual(result.confidence, 'low');
+  });
+
+  test('Cursor style detector picks up table changes', () => {
+    let rules: CursorStyleRule[] = DEFAULT_CURSOR_STYLE_MAP;
+    const detector = new CursorStyleDetector({
+      getCursorStyleMap: () => rules,
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+    const editor = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Underline);
+
+    assert.strictEqual(detector.detect(editor).mode, 'search');
+
+    rules = [{ cursorStyle: 'underline', mode: 'visual' }];
+    assert.strictEqual(detector.detect(editor).mode, 'visual');
+  });
+
+  test('Factory creates detector for known strategy', () => {
+    const detector = createModeDetector('cursorStyle', {
+      getCursorStyleMap: () => [],
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+    assert.strictEqual(detector.id, 'cursorStyle');
+  });
+
+  test('Factory falls back to cursor style detector for unknown strategy', () => {
+    const detector = createModeDetector('telepathy', {
+      getCursorStyleMap: () => [],
+      getAdapter: getModalEditAdapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+    assert.strictEqual(detector.id, 'cursorStyle');
+  });
+
+  test('Extension handles strategy setting changes', async () => {
+    await TestHelpers.ensureExtensionActive();
+
+    await TestHelpers.setConfig('modeDetection.strategy', 'cursorStyle');
+    await TestHelpers.waitForDebounce();
+
+    await vscode.commands.executeCommand('modaledit-line-indicator.queryMode');
+    assert.ok(true, 'Query mode should report the detector without errors');
+  });
+});
@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { getAdapter, toIndicatorMode } from '../../adapters';
+import { ConfigurationManager, DEFAULT_REGISTERED_MODE } from '../../configuration';
+import { DEFAULT_CURSOR_STYLE_MAP, prependCursorStyleRules } from '../../modeDetection';
+
+/**
+ * Mode Registry Tests
+ *
+ * Tests the `modes` setting for declaring modes beyond normal/insert/visual/search:
+ * - Registered modes get their own decoration config (with theme overrides)
+ * - Invalid and reserved mode names are reported
+ * - Detection rules take precedence over the cursor style map
+ * - Adapter modes with a registered name are used directly
+ */
+suite('Mode Registry Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Only built-in modes without registry entries', () => {
+    assert.deepStrictEqual(configManager.getModeNames(), [
+      'normal',
+      'insert',
+      'visual',
+      'visualLine',
+      'visualBlock',
+      'search',
+      'plain',
+      'unknown',
+    ]);
+  });
+
+  test('Registered modes are added after built-in modes', async () => {
+    await TestHelpers.setConfig('modes', {
+      replace: { border: '2px solid #ff00ff' },
+      operatorPending: {},
+    });
+
+    assert.deepStrictEqual(configManager.getModeNames(), [
+      'normal',
+      'insert',
+      'visual',
+      'visualLine',
+      'visualBlock',
+      'search',
+      'plain',
+      'unknown',
+      'replace',
+      'operatorPending',
+    ]);
+  });
+
+  test('Registered mode config is merged with defaults', async () => {
+    await TestHelpers.setConfig('modes', { replace: { border: '2px solid #ff00ff' } });
+
+    const merged = configManager.getConfig('replace');
+    assert.strictEqual(merged.border, '2px solid #ff00ff');
+    assert.strictEqual(merged.backgroundColor, DEFAULT_REGISTERED_MODE.backgroundColor);
+  });
+
+  test('Registered mode supports theme overrides', async () => {
+    const themeKind = configManager.getCurrentThemeKind();
+    await TestHelpers.setConfig('modes', {
+      replace: { border: '2px solid #ff00ff', [themeKind]: { border: '3px solid #00ffff' } },
+    });
+
+    assert.strictEqual(configManager.getConfig('replace').border, '3px solid #00ffff');
+  });
+
+  test('Invalid and built-in mode names are reported', async () => {
+    await TestHelpers.setConfig('modes', {
+      normal: { border: '1px solid red' },
+      'bad name': {},
+      command: 'red',
+      replace: {},
+    });
+
+    const { modes, problems } = configManager.getModeRegistry();
+    assert.deepStrictEqual(Object.keys(modes), ['replace']);
+    assert.strictEqual(problems.length, 3);
+  });
+
+  test('Detection rules are validated', async () => {
+    await TestHelpers.setConfig('modes', {
+      replace: {
+        detection: [{ cursorStyle: 'underline', selection: false }, { cursorStyle: 'x' }],
+      },
+    });
+
+    const { detectionRules, problems } = configManager.getModeRegistry();
+    assert.deepStrictEqual(detectionRules, [
+      { cursorStyle: 'underline', selection: false, mode: 'replace' },
+    ]);
+    assert.strictEqual(problems.length, 1);
+  });
+
+  test('Detection rules shadow cursor style map rules', () => {
+    const rules = prependCursorStyleRules(
+      [{ cursorStyle: 'underline', selection: false, mode: 'replace' }],
+      DEFAULT_CURSOR_STYLE_MAP
+    );
+
+    assert.deepStrictEqual(rules[0], {
+      cursorStyle: 'underline',
+      selection: false,
+      mode: 'replace',
+    });
+    assert.ok(
+      !rules.some(rule => rule.mode === 'search' && rule.cursorStyle === 'underline'),
+      'Shadowed rule should be removed'
+    );
+    assert.ok(
+      rules.some(rule => rule.mode === 'visual' && rule.cursorStyle === 'underline'),
+      'Rule with a different selection state should be kept'
+    );
+  });
+
+  test('Registered detection rules are part of the cursor style map', async () => {
+    await TestHelpers.setConfig('modes', {
+      command: { detection: [{ cursorStyle: 'underline-thin' }] },
+    });
+
+    const { rules } = configManager.getCursorStyleMap(getAdapter('modaledit'));
+    assert.strictEqual(rules[0].cursorStyle, 'underline-thin');
+    assert.strictEqual(rules[0].mode, 'command');
+  });
+
+  test('Registered adapter modes are used directly', () => {
+    const vim = getAdapter('vim');
+
+    assert.strictEqual(toIndicatorMode(vim, 'replace'), 'insert');
+    assert.strictEqual(
+      toIndicatorMode(vim, 'replace', ['normal', 'insert', 'visual', 'search', 'replace']),
+      'replace'
+    );
+  });
+
+  test('Extension handles registry changes', async () => {
+    await TestHelpers.ensureExtensionActive();
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+
+    await TestHelpers.setConfig('modes', { replace: { border: '2px solid #ff00ff' } });
+    await TestHelpers.waitForDebounce();
+
+    await vscode.commands.executeCommand('modaledit-line-indicator.updateHighlight');
+    assert.ok(editor, 'Decorations should be recreated without errors');
+
+    await TestHelpers.closeAllEditors();
+  });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager } from '../../configuration';
+import { getDecorateRanges, getHighlightedSelections, getInactiveRanges } from '../../ranges';
+
+/**
+ * Multi-Cursor Tests
+ *
+ * Tests highlighting of all cursor lines:
+ * - multiCursor.enabled / multiCursor.maxCursors settings
+ * - secondaryCursor variant (defaults to the mode's own style)
+ * - Cursor lines per variant: secondary cursors, maxCursors cap, inactive editors
+ */
+suite('Multi-Cursor Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Multi-cursor settings have correct defaults', () => {
+    assert.deepStrictEqual(configManager.getMultiCursorConfig(), {
+      enabled: true,
+      maxCursors: 200,
+    });
+  });
+
+  test('Cursor cap is at least one line', async () => {
+    await TestHelpers.setConfig('multiCursor.maxCursors', 0);
+
+    assert.strictEqual(configManager.getMultiCursorConfig().maxCursors, 1);
+  });
+
+  test('Secondary cursor variant defaults to the mode style', () => {
+    assert.deepStrictEqual(
+      configManager.getConfig('normal', 'secondaryCursor'),
+      configManager.getConfig('normal')
+    );
+  });
+
+  test('Secondary cursor variant can be styled separately', async () => {
+    await TestHelpers.setConfig('normalMode', {
+      border: '2px dotted #00aa00',
+      secondaryCursor: { border: '1px dotted #00aa00' },
+    });
+
+    assert.strictEqual(
+      configManager.getConfig('normal', 'secondaryCursor').border,
+      '1px dotted #00aa00'
+    );
+    assert.strictEqual(configManager.getConfig('normal').border, '2px dotted #00aa00');
+  });
+
+  function cursorEditor(...lines: number[]): vscode.TextEditor {
+    return TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      lines.map(line => new vscode.Selection(line, 0, line, 0))
+    );
+  }
+
+  function lineSpans(ranges: vscode.Range[] | undefined): string[] {
+    return (ranges ?? []).map(r => `${r.start.line}-${r.end.line}`);
+  }
+
+  test('Secondary cursors get their own variant, one range per line', () => {
+    const editor = TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, [
+      new vscode.Selection(2, 0, 2, 0),
+      new vscode.Selection(0, 0, 0, 0),
+      new vscode.Selection(0, 4, 0, 4),
+      new vscode.Selection(3, 1, 3, 1),
+    ]);
+
+    const ranges = getDecorateRanges(editor, 'cursorLine', { enabled: true, maxCursors: 200 });
+    assert.deepStrictEqual(lineSpans(ranges.get('active')), ['2-2']);
+    assert.deepStrictEqual(lineSpans(ranges.get('secondaryCursor')), ['0-0', '3-3']);
+  });
+
+  test('maxCursors caps the highlighted cursors, primary included', () => {
+    const editor = cursorEditor(0, 1, 2, 3, 4, 5);
+
+    const ranges = getDecorateRanges(editor, 'cursorLine', { enabled: true, maxCursors: 2 });
+    assert.deepStrictEqual(lineSpans(ranges.get('active')), ['0-0']);
+    assert.deepStrictEqual(lineSpans(ranges.get('secondaryCursor')), ['1-1']);
+    assert.strictEqual(
+      getHighlightedSelections(editor, { enabled: true, maxCursors: 1 }).length,
+      1
+    );
+  });
+
+  test('Only the primary cursor is highlighted when multi-cursor is off', () => {
+    const editor = cursorEditor(4, 1, 2);
+
+    const ranges = getDecorateRanges(editor, 'cursorLine', { enabled: false, maxCursors: 200 });
+    assert.deepStrictEqual(lineSpans(ranges.get('active')), ['4-4']);
+    assert.strictEqual(ranges.has('secondaryCursor'), false);
+  });
+
+  test('Editors without focus show all cursor lines as inactive', () => {
+    const editor = cursorEditor(1, 3, 5);
+
+    const ranges = getInactiveRanges(editor, { enabled: true, maxCursors: 2 });
+    assert.deepStrictEqual([...ranges.keys()], ['inactive']);
+    assert.deepStrictEqual(lineSpans(ranges.get('inactive')), ['1-1', '3-3']);
+  });
+});
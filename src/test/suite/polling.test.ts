@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { PollingSchedule, resolvePollingIntervals } from '../../polling';
+
+/**
+ * Polling Tests
+ *
+ * Tests the adaptive poll rate of the polling fallback:
+ * - Settings are clamped to sane minimums
+ * - Polling backs off to the idle interval after idleTimeout without activity
+ * - Activity snaps polling back to the normal interval
+ */
+suite('Polling Tests', () => {
+  function scheduleAt(clock: { now: number }): PollingSchedule {
+    return new PollingSchedule(resolvePollingIntervals(20, 200, 1000), () => clock.now);
+  }
+
+  test('Polling settings are clamped', () => {
+    assert.deepStrictEqual(resolvePollingIntervals(50, 1000, 30000), {
+      interval: 50,
+      idleInterval: 1000,
+      idleTimeout: 30000,
+    });
+    assert.deepStrictEqual(resolvePollingIntervals(1, 5, 10), {
+      interval: 10,
+      idleInterval: 10,
+      idleTimeout: 1000,
+    });
+  });
+
+  test('Polling backs off to the idle interval after idleTimeout', () => {
+    const clock = { now: 0 };
+    const schedule = scheduleAt(clock);
+    assert.strictEqual(schedule.getInterval(), 20);
+
+    clock.now = 999;
+    assert.strictEqual(schedule.checkIdle(), false);
+    assert.strictEqual(schedule.getInterval(), 20);
+
+    clock.now = 1000;
+    assert.strictEqual(schedule.checkIdle(), true);
+    assert.strictEqual(schedule.isIdle, true);
+    assert.strictEqual(schedule.getInterval(), 200);
+
+    // Already idle: no further change to report
+    clock.now = 5000;
+    assert.strictEqual(schedule.checkIdle(), false);
+  });
+
+  test('Activity resumes the normal interval and restarts the idle timeout', () => {
+    const clock = { now: 0 };
+    const schedule = scheduleAt(clock);
+    clock.now = 1500;
+    schedule.checkIdle();
+
+    assert.strictEqual(schedule.noteActivity(), true);
+    assert.strictEqual(schedule.getInterval(), 20);
+    assert.strictEqual(schedule.noteActivity(), false);
+
+    clock.now = 2000;
+    assert.strictEqual(schedule.checkIdle(), false);
+    clock.now = 2500;
+    assert.strictEqual(schedule.checkIdle(), true);
+    assert.strictEqual(schedule.getInterval(), 200);
+  });
+});
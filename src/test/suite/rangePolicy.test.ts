@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager } from '../../configuration';
+import { getDecorateRanges } from '../../ranges';
+
+/**
+ * Range Policy Tests
+ *
+ * Tests which lines of a selection are decorated:
+ * - rangePolicy defaults (visual frames the selection, other modes the cursor line)
+ * - firstLine / middleLines / lastLine variants open the frame between lines
+ * - Lines per variant for each policy, single-line and reversed selections
+ */
+suite('Range Policy Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Range policies have correct defaults', () => {
+    assert.strictEqual(configManager.getRangePolicy('normal'), 'cursorLine');
+    assert.strictEqual(configManager.getRangePolicy('insert'), 'cursorLine');
+    assert.strictEqual(configManager.getRangePolicy('visual'), 'selectionBounds');
+    assert.strictEqual(configManager.getRangePolicy('search'), 'cursorLine');
+  });
+
+  test('Range policy can be set per mode', async () => {
+    await TestHelpers.setConfig('visualMode', { rangePolicy: 'selectionLines' });
+    await TestHelpers.setConfig('modes', { replace: { rangePolicy: 'selectionBounds' } });
+
+    assert.strictEqual(configManager.getRangePolicy('visual'), 'selectionLines');
+    assert.strictEqual(configManager.getRangePolicy('replace'), 'selectionBounds');
+  });
+
+  test('Invalid range policy falls back to the default', async () => {
+    await TestHelpers.setConfig('visualMode', { rangePolicy: 'everything' });
+
+    assert.strictEqual(configManager.getRangePolicy('visual'), 'selectionBounds');
+  });
+
+  test('Frame variants default to open border sides', () => {
+    assert.strictEqual(configManager.getConfig('visual', 'firstLine').borderWidth, '2px 2px 0 2px');
+    assert.strictEqual(configManager.getConfig('visual', 'middleLines').borderWidth, '0 2px');
+    assert.strictEqual(configManager.getConfig('visual', 'lastLine').borderWidth, '0 2px 2px 2px');
+    assert.strictEqual(
+      configManager.getConfig('visual', 'firstLine').border,
+      configManager.getConfig('visual').border
+    );
+  });
+
+  test('Frame variants follow the mode border width', async () => {
+    await TestHelpers.setConfig('visualMode', { border: '3px dashed #0000aa' });
+
+    assert.strictEqual(configManager.getConfig('visual', 'middleLines').borderWidth, '0 3px');
+  });
+
+  test('Frame variants can be styled separately', async () => {
+    await TestHelpers.setConfig('visualMode', {
+      border: '2px dashed #0000aa',
+      middleLines: { backgroundColor: 'rgba(0, 0, 170, 0.1)' },
+    });
+
+    const middle = configManager.getConfig('visual', 'middleLines');
+    assert.strictEqual(middle.backgroundColor, 'rgba(0, 0, 170, 0.1)');
+    assert.strictEqual(middle.border, '2px dashed #0000aa');
+  });
+
+  const multiCursor = { enabled: true, maxCursors: 200 };
+
+  function selectionEditor(...selections: vscode.Selection[]): vscode.TextEditor {
+    return TestHelpers.createMockEditor(vscode.TextEditorCursorStyle.Block, selections);
+  }
+
+  function lineSpans(ranges: Map<string, vscode.Range[]>): Record<string, string[]> {
+    return Object.fromEntries(
+      [...ranges].map(([variant, list]) => [
+        variant,
+        list.map(r => `${r.start.line}-${r.end.line}`),
+      ])
+    );
+  }
+
+  test('selectionBounds frames multi-line selections', () => {
+    const editor = selectionEditor(new vscode.Selection(1, 2, 5, 4));
+
+    assert.deepStrictEqual(lineSpans(getDecorateRanges(editor, 'selectionBounds', multiCursor)), {
+      firstLine: ['1-1'],
+      middleLines: ['2-4'],
+      lastLine: ['5-5'],
+    });
+  });
+
+  test('Two-line selections have no middle lines', () => {
+    const editor = selectionEditor(new vscode.Selection(1, 2, 2, 4));
+
+    assert.deepStrictEqual(lineSpans(getDecorateRanges(editor, 'selectionBounds', multiCursor)), {
+      firstLine: ['1-1'],
+      lastLine: ['2-2'],
+    });
+  });
+
+  test('Single-line selections use the cursor variant', () => {
+    const editor = selectionEditor(
+      new vscode.Selection(3, 1, 3, 5),
+      new vscode.Selection(6, 0, 7, 0) // Ends at the start of line 7: line 6 only
+    );
+
+    const expected = { active: ['3-3'], secondaryCursor: ['6-6'] };
+    assert.deepStrictEqual(
+      lineSpans(getDecorateRanges(editor, 'selectionBounds', multiCursor)),
+      expected
+    );
+    assert.deepStrictEqual(
+      lineSpans(getDecorateRanges(editor, 'selectionLines', multiCursor)),
+      expected
+    );
+  });
+
+  test('Reversed selections are framed like forward ones', () => {
+    // Anchor after the cursor: selected upwards from line 4 to line 1
+    const reversed = selectionEditor(new vscode.Selection(4, 3, 1, 2));
+    const forward = selectionEditor(new vscode.Selection(1, 2, 4, 3));
+
+    assert.deepStrictEqual(
+      lineSpans(getDecorateRanges(reversed, 'selectionBounds', multiCursor)),
+      lineSpans(getDecorateRanges(forward, 'selectionBounds', multiCursor))
+    );
+    assert.deepStrictEqual(lineSpans(getDecorateRanges(reversed, 'selectionLines', multiCursor)), {
+      active: ['1-4'],
+    });
+    // The cursor line is where the cursor is, not where the selection ends
+    assert.deepStrictEqual(lineSpans(getDecorateRanges(reversed, 'cursorLine', multiCursor)), {
+      active: ['1-1'],
+    });
+  });
+});
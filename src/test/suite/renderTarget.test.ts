@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager } from '../../configuration';
+
+/**
+ * Render Target Tests
+ *
+ * Tests where a mode is drawn:
+ * - renderTarget defaults to wholeLine and resolves through the theme cascade
+ * - Variants inherit the mode's render target unless set
+ * - Gutter and overview ruler marks use the style's indicator color
+ * - Extension handles non-default render targets without errors
+ */
+suite('Render Target Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Render target defaults to wholeLine', () => {
+    assert.strictEqual(
+      configManager.getRenderTarget(configManager.getConfig('normal')),
+      'wholeLine'
+    );
+    assert.strictEqual(
+      configManager.getRenderTarget(configManager.getConfig('visual', 'middleLines')),
+      'wholeLine'
+    );
+  });
+
+  test('Render target can be set per mode and theme', async () => {
+    await TestHelpers.setConfig('normalMode', {
+      renderTarget: 'text',
+      dark: { renderTarget: 'gutter' },
+      light: { renderTarget: 'gutter' },
+      darkHC: { renderTarget: 'gutter' },
+      lightHC: { renderTarget: 'gutter' },
+    });
+    await TestHelpers.setConfig('insertMode', { renderTarget: 'overviewRuler' });
+
+    assert.strictEqual(configManager.getRenderTarget(configManager.getConfig('normal')), 'gutter');
+    assert.strictEqual(
+      configManager.getRenderTarget(configManager.getConfig('insert')),
+      'overviewRuler'
+    );
+  });
+
+  test('Variants inherit the mode render target', async () => {
+    await TestHelpers.setConfig('visualMode', {
+      renderTarget: 'text',
+      inactive: { renderTarget: 'gutter' },
+    });
+
+    assert.strictEqual(
+      configManager.getRenderTarget(configManager.getConfig('visual', 'firstLine')),
+      'text'
+    );
+    assert.strictEqual(
+      configManager.getRenderTarget(configManager.getConfig('visual', 'inactive')),
+      'gutter'
+    );
+  });
+
+  test('Invalid render target falls back to wholeLine', async () => {
+    await TestHelpers.setConfig('normalMode', { renderTarget: 'margin' });
+
+    assert.strictEqual(
+      configManager.getRenderTarget(configManager.getConfig('normal')),
+      'wholeLine'
+    );
+  });
+
+  test('Indicator color comes from the style', () => {
+    assert.strictEqual(
+      configManager.getIndicatorColor({ border: '2px dotted #00aa00' }),
+      '#00aa00'
+    );
+    assert.strictEqual(configManager.getIndicatorColor({ border: '3px solid cyan' }), 'cyan');
+    assert.strictEqual(
+      configManager.getIndicatorColor({ border: '1px solid rgba(0, 0, 170, 0.5)' }),
+      'rgba(0, 0, 170, 0.5)'
+    );
+    assert.strictEqual(
+      configManager.getIndicatorColor({ border: '2px solid #00aa00', borderColor: '#aa0000' }),
+      '#aa0000'
+    );
+    assert.strictEqual(
+      configManager.getIndicatorColor({ border: '2px solid #00aa00', overviewRulerColor: 'red' }),
+      'red'
+    );
+    assert.strictEqual(configManager.getIndicatorColor({ backgroundColor: '#123456' }), '#123456');
+    assert.strictEqual(configManager.getIndicatorColor({}), '#808080');
+  });
+
+  test('Extension handles gutter and text render targets', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('normalMode', { renderTarget: 'gutter' });
+    await TestHelpers.setConfig('insertMode', { renderTarget: 'text' });
+    const editor = await TestHelpers.createTestEditor('line 1\n\n    line 3');
+
+    await TestHelpers.waitForDebounce();
+    assert.strictEqual(editor.document.lineCount, 3);
+  });
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { DecorationRenderer, DecorationTypes } from '../../renderer';
+
+/**
+ * Renderer Tests
+ *
+ * Tests the diff-based render pipeline:
+ * - setDecorations is only called for decoration types whose ranges changed
+ * - Scheduled updates are coalesced per editor
+ * - forget / retain drop painted state (swapped types, hidden editors)
+ * - Edits invalidate what was painted in the editors of the edited document
+ */
+suite('Renderer Tests', () => {
+  let decorations: DecorationTypes = new Map();
+
+  teardown(() => {
+    decorations.forEach(decoration => decoration.dispose());
+    decorations = new Map();
+  });
+
+  /**
+   * Editor that records its setDecorations calls (creates the decoration types on first use)
+   */
+  function recordingEditor(document: object = {}): {
+    editor: vscode.TextEditor;
+    calls: string[];
+  } {
+    if (decorations.size === 0) {
+      decorations = new Map([
+        ['normal.default', TestHelpers.createTestDecoration('rgba(0, 170, 0, 0.1)')],
+        ['insert.default', TestHelpers.createTestDecoration('rgba(170, 0, 0, 0.1)')],
+      ]);
+    }
+
+    const calls: string[] = [];
+    const editor = {
+      document,
+      setDecorations: (decoration: vscode.TextEditorDecorationType, ranges: vscode.Range[]) => {
+        const key = [...decorations].find(([, type]) => type === decoration)?.[0];
+        calls.push(`${key}:${ranges.length}`);
+      },
+    } as unknown as vscode.TextEditor;
+    return { editor, calls };
+  }
+
+  function line(n: number): vscode.Range {
+    return new vscode.Range(n, 0, n, 0);
+  }
+
+  test('Unchanged ranges are not painted again', () => {
+    const renderer = new DecorationRenderer(() => undefined, 0);
+    const { editor, calls } = recordingEditor();
+
+    renderer.paint(editor, decorations, new Map([['normal.default', [line(1)]]]));
+    renderer.paint(editor, decorations, new Map([['normal.default', [line(1)]]]));
+
+    assert.deepStrictEqual(calls, ['normal.default:1']);
+    assert.deepStrictEqual(renderer.getStats(), { performed: 1, skipped: 3 });
+  });
+
+  test('Only decoration types whose ranges changed are painted', () => {
+    const renderer = new DecorationRenderer(() => undefined, 0);
+    const { editor, calls } = recordingEditor();
+
+    renderer.paint(editor, decorations, new Map([['normal.default', [line(1)]]]));
+    renderer.paint(editor, decorations, new Map([['normal.default', [line(2)]]]));
+    renderer.paint(editor, decorations, new Map([['insert.default', [line(2)]]]));
+
+    assert.deepStrictEqual(calls, [
+      'normal.default:1',
+      'normal.default:1',
+      'normal.default:0',
+      'insert.default:1',
+    ]);
+  });
+
+  test('Scheduled updates are coalesced per editor', async () => {
+    const updated: vscode.TextEditor[] = [];
+    const renderer = new DecorationRenderer(editor => updated.push(editor), 10);
+    const first = recordingEditor().editor;
+    const second = recordingEditor().editor;
+
+    renderer.schedule(first);
+    renderer.schedule(second);
+    renderer.schedule(first);
+    await TestHelpers.waitForDebounce();
+
+    assert.deepStrictEqual(updated, [first, second]);
+    renderer.dispose();
+  });
+
+  test('Cancelled updates are not rendered', async () => {
+    const updated: vscode.TextEditor[] = [];
+    const renderer = new DecorationRenderer(editor => updated.push(editor), 10);
+
+    renderer.schedule(recordingEditor().editor);
+    renderer.cancel();
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual(updated.length, 0);
+  });
+
+  test('Swapped types and hidden editors are painted from scratch', () => {
+    const renderer = new DecorationRenderer(() => undefined, 0);
+    const { editor, calls } = recordingEditor();
+    const ranges = new Map([['normal.default', [line(1)]]]);
+
+    renderer.paint(editor, decorations, ranges);
+    renderer.forget(['normal.default']);
+    renderer.paint(editor, decorations, ranges);
+    renderer.retain([]);
+    renderer.paint(editor, decorations, ranges);
+
+    assert.deepStrictEqual(calls, ['normal.default:1', 'normal.default:1', 'normal.default:1']);
+  });
+
+  test('Edited documents are painted again', () => {
+    const renderer = new DecorationRenderer(() => undefined, 0);
+    const document = {} as vscode.TextDocument;
+    const { editor, calls } = recordingEditor(document);
+    const other = recordingEditor();
+    const ranges = new Map([['normal.default', [line(1)]]]);
+
+    renderer.paint(editor, decorations, ranges);
+    renderer.paint(other.editor, decorations, ranges);
+    // A line inserted above line 1 stretches its highlight - the line number is the same
+    renderer.invalidate(document);
+    renderer.paint(editor, decorations, ranges);
+    renderer.paint(other.editor, decorations, ranges);
+
+    // Types that were empty stay skipped; only the edited document's editor is repainted
+    assert.deepStrictEqual(calls, ['normal.default:1', 'normal.default:1']);
+    assert.deepStrictEqual(other.calls, ['normal.default:1']);
+  });
+});
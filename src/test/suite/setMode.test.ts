@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+
+/**
+ * Set Mode Command Tests
+ *
+ * Tests the setMode command used by keybindings and ModalEdit command sequences
+ * to announce the mode explicitly, together with the modeDetection.source setting:
+ * - explicit shows announced modes only, explicitWithFallback falls back to detection
+ * - Announcements target the active editor or the editor of a (normalized) URI
+ * - Unknown mode names are ignored
+ */
+suite('Set Mode Command Tests', () => {
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('setMode command is registered', async () => {
+    await TestHelpers.ensureExtensionActive();
+
+    const commands = await vscode.commands.getCommands(true);
+    assert.ok(
+      commands.includes('modaledit-line-indicator.setMode'),
+      'setMode command should be registered'
+    );
+  });
+
+  test('modeDetection.source defaults to heuristic', () => {
+    const config = TestHelpers.getConfig();
+    assert.strictEqual(config.get('modeDetection.source'), 'heuristic');
+  });
+
+  async function setMode(arg: unknown): Promise<void> {
+    await vscode.commands.executeCommand('modaledit-line-indicator.setMode', arg);
+  }
+
+  test('explicit source shows unknown until a mode is announced', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.source', 'explicit');
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'unknown'), 'unknown');
+
+    await setMode('normal');
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'normal'), 'normal');
+  });
+
+  test('explicitWithFallback source uses detection until a mode is announced', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    await TestHelpers.setConfig('modeDetection.source', 'explicitWithFallback');
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'plain'), 'plain');
+
+    await setMode('insert');
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'insert'), 'insert');
+  });
+
+  test('setMode targets the editor of the given URI', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    await TestHelpers.setConfig('modeDetection.source', 'explicitWithFallback');
+    const left = await TestHelpers.createTestEditor('left 1\nleft 2');
+    const rightDoc = await TestHelpers.createTestDocument('right 1\nright 2');
+    const right = await vscode.window.showTextDocument(rightDoc, vscode.ViewColumn.Two);
+    assert.strictEqual(await TestHelpers.waitForShownMode(right, 'plain'), 'plain');
+
+    await setMode({ mode: 'visual', uri: left.document.uri.toString() });
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(left, 'visual'), 'visual');
+    assert.strictEqual(vscode.window.activeTextEditor, right);
+    assert.strictEqual((await TestHelpers.getIndicatorApi()).getShownMode(right), 'plain');
+  });
+
+  test('setMode normalizes string URIs', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    await TestHelpers.setConfig('modeDetection.source', 'explicit');
+    const editor = await TestHelpers.createTestEditor('line 1');
+    const { scheme, path } = editor.document.uri;
+
+    // Same document, but with the letters of its path percent-encoded
+    const encodedPath = path.replace(
+      /[A-Za-z]/g,
+      c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    await setMode({ mode: 'visual', uri: `${scheme}:${encodedPath}` });
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'visual'), 'visual');
+  });
+
+  test('setMode ignores unknown modes', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.source', 'explicit');
+    const editor = await TestHelpers.createTestEditor('line 1');
+    await setMode('search');
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'search'), 'search');
+
+    await setMode('telepathy');
+    await TestHelpers.waitForDebounce();
+
+    assert.strictEqual((await TestHelpers.getIndicatorApi()).getShownMode(editor), 'search');
+  });
+});
@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { getAdapter, getAdapterExtension, selectAdapter } from '../../adapters';
+import { ConfigurationManager } from '../../configuration';
+import { CursorStyleDetector, INDICATOR_MODES } from '../../modeDetection';
+
+/**
+ * Standalone Tests
+ *
+ * Tests running without a modal editing extension:
+ * - The standalone adapter has no extension and is selected explicitly or by 'auto'
+ * - The cursor line is plain, selections are visual (with sub-modes), whatever the cursor style
+ * - plainMode defaults and customization
+ */
+suite('Standalone Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  function standaloneDetector() {
+    const adapter = getAdapter('standalone');
+    return new CursorStyleDetector({
+      getCursorStyleMap: () => adapter.defaultCursorStyleMap,
+      getAdapter: () => adapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+  }
+
+  test('Standalone adapter has no extension', () => {
+    const adapter = selectAdapter('standalone');
+
+    assert.strictEqual(adapter.id, 'standalone');
+    assert.strictEqual(adapter.extensionId, undefined);
+    assert.strictEqual(getAdapterExtension(adapter), undefined);
+  });
+
+  test('Cursor line without a selection is plain for every cursor style', () => {
+    const detector = standaloneDetector();
+
+    for (const cursorStyle of [
+      vscode.TextEditorCursorStyle.Line,
+      vscode.TextEditorCursorStyle.Block,
+      vscode.TextEditorCursorStyle.Underline,
+    ]) {
+      assert.strictEqual(
+        detector.detect(TestHelpers.createMockEditor(cursorStyle)).mode,
+        'plain',
+        `cursor style ${cursorStyle}`
+      );
+    }
+  });
+
+  test('Selections are visual, refined by their shape', () => {
+    const detector = standaloneDetector();
+    const characterwise = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Line,
+      [new vscode.Selection(0, 1, 0, 3)],
+      ['first', 'second']
+    );
+    const linewise = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Line,
+      [new vscode.Selection(0, 0, 2, 0)],
+      ['first', 'second', 'third']
+    );
+
+    assert.strictEqual(detector.detect(characterwise).mode, 'visual');
+    assert.strictEqual(detector.detect(linewise).mode, 'visualLine');
+  });
+
+  test('Plain mode has a thin neutral default border', () => {
+    const plain = configManager.getConfig('plain');
+
+    assert.strictEqual(plain.border, '1px solid #808080');
+    assert.strictEqual(configManager.getRangePolicy('plain'), 'cursorLine');
+  });
+
+  test('Plain mode supports theme overrides', async () => {
+    const themeKind = configManager.getCurrentThemeKind();
+    await TestHelpers.setConfig('plainMode', {
+      border: '1px solid #444444',
+      [themeKind]: { border: '1px solid #cccccc' },
+    });
+
+    assert.strictEqual(configManager.getConfig('plain').border, '1px solid #cccccc');
+  });
+
+  test('Extension shows plain and visual modes standalone', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'plain'), 'plain');
+
+    editor.selection = new vscode.Selection(0, 0, 0, 4);
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'visual'), 'visual');
+  });
+
+  test('setMode announcements apply standalone with the heuristic source', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+    assert.strictEqual(TestHelpers.getConfig().get('modeDetection.source'), 'heuristic');
+
+    await vscode.commands.executeCommand('modaledit-line-indicator.setMode', 'normal');
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'normal'), 'normal');
+  });
+
+  test('setMode announcements are not used by a modal adapter with the heuristic source', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'modaledit');
+    const api = await TestHelpers.getIndicatorApi();
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+    await TestHelpers.waitFor(() => api.getShownMode(editor) !== undefined);
+    const detected = api.getShownMode(editor);
+
+    await vscode.commands.executeCommand('modaledit-line-indicator.setMode', 'search');
+    await TestHelpers.waitForDebounce();
+
+    assert.notStrictEqual(detected, 'search');
+    assert.strictEqual(api.getShownMode(editor), detected);
+  });
+});
@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import {
+  ConfigurationManager,
+  MAX_TRANSITION_DELAY_MS,
+  Mode,
+  ModeTransitionDelays,
+} from '../../configuration';
+import { decideModeTransition, getTransitionDelay } from '../../modeTransitions';
+
+/**
+ * Mode Transition Delay Tests
+ *
+ * Tests the per-mode enterDelay / exitDelay hysteresis:
+ * - Delays default to 0 (mode changes are shown immediately)
+ * - Invalid values are clamped, sub-modes inherit from their parent mode
+ * - A change waits max(exit, enter); pending changes wait, show, restart or cancel
+ * - Extension shows a delayed mode only after its delay
+ */
+suite('Mode Transition Delay Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Transition delays default to zero', () => {
+    for (const mode of configManager.getModeNames()) {
+      assert.deepStrictEqual(configManager.getTransitionDelays(mode), { enter: 0, exit: 0 }, mode);
+    }
+  });
+
+  test('Transition delays are read per mode', async () => {
+    await TestHelpers.setConfig('searchMode', { enterDelay: 80 });
+    await TestHelpers.setConfig('modes', { replace: { exitDelay: 30 } });
+
+    assert.deepStrictEqual(configManager.getTransitionDelays('search'), { enter: 80, exit: 0 });
+    assert.deepStrictEqual(configManager.getTransitionDelays('replace'), { enter: 0, exit: 30 });
+  });
+
+  test('Invalid transition delays are clamped or ignored', async () => {
+    await TestHelpers.setConfig('insertMode', { enterDelay: -5, exitDelay: 100000 });
+    await TestHelpers.setConfig('normalMode', { enterDelay: 'fast' });
+
+    assert.deepStrictEqual(configManager.getTransitionDelays('insert'), {
+      enter: 0,
+      exit: MAX_TRANSITION_DELAY_MS,
+    });
+    assert.strictEqual(configManager.getTransitionDelays('normal').enter, 0);
+  });
+
+  test('Sub-modes inherit transition delays from visual mode', async () => {
+    await TestHelpers.setConfig('visualMode', { enterDelay: 40, exitDelay: 20 });
+    await TestHelpers.setConfig('visualBlockMode', { enterDelay: 0 });
+
+    assert.deepStrictEqual(configManager.getTransitionDelays('visualLine'), {
+      enter: 40,
+      exit: 20,
+    });
+    assert.deepStrictEqual(configManager.getTransitionDelays('visualBlock'), {
+      enter: 0,
+      exit: 20,
+    });
+  });
+
+  const delays = new Map<Mode, ModeTransitionDelays>([
+    ['normal', { enter: 0, exit: 30 }],
+    ['insert', { enter: 80, exit: 0 }],
+    ['visual', { enter: 20, exit: 0 }],
+  ]);
+
+  test('A mode change waits for the larger of exit and enter delay', () => {
+    assert.strictEqual(getTransitionDelay('normal', 'insert', delays), 80);
+    assert.strictEqual(getTransitionDelay('normal', 'visual', delays), 30);
+    assert.strictEqual(getTransitionDelay('insert', 'search', delays), 0);
+
+    assert.deepStrictEqual(decideModeTransition('normal', 'insert', undefined, delays), {
+      action: 'start',
+      mode: 'normal',
+      delayMs: 80,
+    });
+  });
+
+  test('A pending change is shown once its delay has elapsed', () => {
+    const pending = { mode: 'insert', elapsed: false };
+
+    assert.deepStrictEqual(decideModeTransition('normal', 'insert', pending, delays), {
+      action: 'wait',
+      mode: 'normal',
+    });
+    pending.elapsed = true;
+    assert.deepStrictEqual(decideModeTransition('normal', 'insert', pending, delays), {
+      action: 'show',
+      mode: 'insert',
+    });
+  });
+
+  test('A pending change is cancelled or restarted by other detections', () => {
+    const pending = { mode: 'insert', elapsed: false };
+
+    // Back to the shown mode: the pending change is dropped
+    assert.deepStrictEqual(decideModeTransition('normal', 'normal', pending, delays), {
+      action: 'show',
+      mode: 'normal',
+    });
+    // Another candidate: its own delay starts over
+    assert.deepStrictEqual(decideModeTransition('normal', 'visual', pending, delays), {
+      action: 'start',
+      mode: 'normal',
+      delayMs: 30,
+    });
+  });
+
+  test('Without delays every change is shown right away', () => {
+    assert.deepStrictEqual(decideModeTransition('normal', 'insert', undefined, new Map()), {
+      action: 'show',
+      mode: 'insert',
+    });
+    assert.deepStrictEqual(decideModeTransition('insert', 'search', undefined, delays), {
+      action: 'show',
+      mode: 'search',
+    });
+    // First decoration of an editor
+    assert.deepStrictEqual(decideModeTransition(undefined, 'insert', undefined, delays), {
+      action: 'show',
+      mode: 'insert',
+    });
+  });
+
+  test('Extension shows a delayed mode only after its enter delay', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.adapter', 'standalone');
+    await TestHelpers.setConfig('visualMode', { enterDelay: 300 });
+    const api = await TestHelpers.getIndicatorApi();
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2\nline 3');
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'plain'), 'plain');
+
+    editor.selection = new vscode.Selection(0, 0, 0, 4);
+    await TestHelpers.waitForDebounce();
+    assert.strictEqual(api.getShownMode(editor), 'plain');
+
+    assert.strictEqual(await TestHelpers.waitForShownMode(editor, 'visual'), 'visual');
+  });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { TestHelpers } from '../helpers/testHelpers';
+import { ConfigurationManager, DEFAULT_UNKNOWN_MODE } from '../../configuration';
+
+/**
+ * Unknown Mode Tests
+ *
+ * Tests the mode shown when the detector can't tell the mode:
+ * - unknown mode has its own decoration (unknownMode setting)
+ * - modeDetection.unknownFallback chooses between unknown, insert and normal
+ */
+suite('Unknown Mode Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.closeAllEditors();
+    await TestHelpers.resetAllConfig();
+  });
+
+  test('Unknown mode is a built-in mode', () => {
+    assert.ok(configManager.getModeNames().includes('unknown'));
+  });
+
+  test('Unknown mode has a distinct default decoration', () => {
+    const unknown = configManager.getConfig('unknown');
+
+    assert.strictEqual(unknown.border, DEFAULT_UNKNOWN_MODE.border);
+    assert.notStrictEqual(unknown.border, configManager.getConfig('insert').border);
+    assert.notStrictEqual(unknown.border, configManager.getConfig('normal').border);
+  });
+
+  test('Unknown mode can be styled', async () => {
+    await TestHelpers.setConfig('unknownMode', { border: '3px double #ff8800' });
+
+    assert.strictEqual(configManager.getConfig('unknown').border, '3px double #ff8800');
+  });
+
+  test('modeDetection.unknownFallback defaults to unknown', () => {
+    const config = TestHelpers.getConfig();
+    assert.strictEqual(config.get('modeDetection.unknownFallback'), 'unknown');
+  });
+
+  test('Unannounced editors show the unknown fallback with the explicit source', async () => {
+    await TestHelpers.ensureExtensionActive();
+    await TestHelpers.setConfig('modeDetection.source', 'explicit');
+    const editor = await TestHelpers.createTestEditor('line 1\nline 2');
+
+    for (const fallback of ['insert', 'normal', 'unknown']) {
+      await TestHelpers.setConfig('modeDetection.unknownFallback', fallback);
+
+      assert.strictEqual(await TestHelpers.waitForShownMode(editor, fallback), fallback);
+    }
+  });
+});
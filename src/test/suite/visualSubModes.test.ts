@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TestHelpers } from '../helpers/testHelpers';
+import { getAdapter } from '../../adapters';
+import { ConfigurationManager } from '../../configuration';
+import { classifySelections, CursorStyleDetector, INDICATOR_MODES } from '../../modeDetection';
+
+/**
+ * Visual Sub-Mode Tests
+ *
+ * Tests the visualLine and visualBlock modes:
+ * - Whole-line and column selections are classified and detected as sub-modes
+ * - Unset sub-mode settings fall back to visualMode (style, variants, rangePolicy)
+ * - Sub-modes can be styled separately
+ */
+suite('Visual Sub-Mode Tests', () => {
+  const configManager = ConfigurationManager.getInstance();
+
+  teardown(async () => {
+    await TestHelpers.resetAllConfig();
+  });
+
+  function modalEditDetector() {
+    const adapter = getAdapter('modaledit');
+    return new CursorStyleDetector({
+      getCursorStyleMap: () => adapter.defaultCursorStyleMap,
+      getAdapter: () => adapter,
+      getModeNames: () => INDICATOR_MODES,
+    });
+  }
+
+  test('ModalEdit whole-line selection is detected as visualLine', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 0, 2, 0)],
+      ['first', 'second', 'third']
+    );
+
+    assert.strictEqual(modalEditDetector().detect(editor).mode, 'visualLine');
+  });
+
+  test('Selecting a whole single line stays visual', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 0, 0, 4)],
+      ['word', 'second']
+    );
+
+    assert.strictEqual(modalEditDetector().detect(editor).mode, 'visual');
+  });
+
+  test('ModalEdit column selection is detected as visualBlock', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [
+        new vscode.Selection(0, 1, 0, 4),
+        new vscode.Selection(1, 1, 1, 4),
+        new vscode.Selection(2, 1, 2, 4),
+      ],
+      ['abcdef', 'abcdef', 'abcdef']
+    );
+
+    assert.strictEqual(modalEditDetector().detect(editor).mode, 'visualBlock');
+  });
+
+  test('Column selection may end early on shorter lines', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 1, 0, 4), new vscode.Selection(1, 1, 1, 2)],
+      ['abcdef', 'ab']
+    );
+
+    assert.strictEqual(classifySelections(editor), 'block');
+  });
+
+  test('Selections of different widths are not a column selection', () => {
+    const editor = TestHelpers.createMockEditor(
+      vscode.TextEditorCursorStyle.Block,
+      [new vscode.Selection(0, 1, 0, 4), new vscode.Selection(1, 1, 1, 2)],
+      ['abcdef', 'abcdef']
+    );
+
+    assert.strictEqual(classifySelections(editor), 'character');
+  });
+
+  test('Unset sub-modes use the visual mode style', async () => {
+    await TestHelpers.setConfig('visualMode', {
+      border: '3px dashed #0000ff',
+      inactive: { border: '1px dashed #000055' },
+    });
+
+    assert.deepStrictEqual(
+      configManager.getConfig('visualLine'),
+      configManager.getConfig('visual')
+    );
+    assert.strictEqual(
+      configManager.getConfig('visualBlock', 'inactive').border,
+      '1px dashed #000055'
+    );
+    assert.strictEqual(configManager.getConfig('visualBlock', 'middleLines').borderWidth, '0 3px');
+  });
+
+  test('Sub-mode properties override the visual mode style', async () => {
+    await TestHelpers.setConfig('visualMode', {
+      border: '2px dashed #0000aa',
+      backgroundColor: 'rgba(0, 0, 170, 0.1)',
+    });
+    await TestHelpers.setConfig('visualLineMode', { border: '2px solid #0000aa' });
+
+    const visualLine = configManager.getConfig('visualLine');
+    assert.strictEqual(visualLine.border, '2px solid #0000aa');
+    assert.strictEqual(visualLine.backgroundColor, 'rgba(0, 0, 170, 0.1)');
+    assert.strictEqual(
+      configManager.getConfig('visualLine', 'inactive').border,
+      '2px solid #0000aa80'
+    );
+  });
+
+  test('Sub-modes use the visual range policy unless set', async () => {
+    await TestHelpers.setConfig('visualMode', { rangePolicy: 'selectionLines' });
+    await TestHelpers.setConfig('visualBlockMode', { rangePolicy: 'cursorLine' });
+
+    assert.strictEqual(configManager.getRangePolicy('visualLine'), 'selectionLines');
+    assert.strictEqual(configManager.getRangePolicy('visualBlock'), 'cursorLine');
+  });
+
+  test('Sub-mode names are reserved in the mode registry', async () => {
+    await TestHelpers.setConfig('modes', { visualLine: {}, replace: {} });
+
+    const { modes, problems } = configManager.getModeRegistry();
+    assert.deepStrictEqual(Object.keys(modes), ['replace']);
+    assert.strictEqual(problems.length, 1);
+  });
+});